@@ -0,0 +1,14 @@
+import { EVP } from '..';
+
+const logger: EVP.ILogger = { info() {}, error() {} };
+
+export default EVP.object({
+    APP_HOST: EVP.string(),
+    APP_PORT: EVP.port().default(8080),
+})
+    .assumePrefix('APP_')
+    .logger(logger);
+
+export const worker = EVP.object({
+    WORKER_QUEUE: EVP.string().description('the name of the queue'),
+}).logger(logger);
@@ -8,10 +8,61 @@ import {
     BooleanVariable,
     NumericVariable,
     StringVariable,
+    ArrayVariable,
+    IndexedParser,
+    UrlVariable,
+    PortVariable,
+    DurationVariable,
+    BytesVariable,
+    SchemaVariable,
+    JsonVariable,
+    JsonValidator,
 } from './mod';
+import { StandardSchemaV1 } from './standard-schema';
 
-export { Variable, ObjectParser, Parser } from './mod';
-export { ILogger, ConsoleLogger } from './logger';
+export {
+    Variable,
+    ObjectParser,
+    Parser,
+    Source,
+    Input,
+    SerializeOptions,
+    JsonValidator,
+} from './mod';
+export {
+    parseDotenv,
+    stringifyDotenv,
+    loadEnv,
+    LoadEnvOptions,
+} from './dotenv';
+export { JSONSchema } from './schema';
+export { DocEntry, DocFormatter, MarkdownTableFormatter } from './docs';
+export {
+    ILogger,
+    ConsoleLogger,
+    LogEvent,
+    LogEventKind,
+    LogLevel,
+    formatEvent,
+} from './logger';
+export { EVPError, Issue, IssueReason } from './error';
+export { AuditReport } from './audit';
+export { Secret } from './secret';
+export { StandardSchemaV1 } from './standard-schema';
+export { ConfigWatcher, WatchOptions, ChangeEvent } from './watch';
+export {
+    Redactor,
+    Sha256Redactor,
+    MaskRedactor,
+    HmacRedactor,
+    LastCharsRedactor,
+    LengthRedactor,
+} from './redact';
+export {
+    SecretResolver,
+    FileSecretResolver,
+    MemorySecretResolver,
+} from './resolver';
 
 /**
  * Infer the type of an ObjectParser
@@ -74,6 +125,101 @@ export function boolean(): Variable<boolean> {
     return new BooleanVariable();
 }
 
+/**
+ * Parser for a URL
+ * @returns A Variable of type URL
+ *
+ * @example
+ * ```ts
+ * { API_ENDPOINT: EVP.url().protocols('https') }
+ * ```
+ */
+export function url(): UrlVariable {
+    return new UrlVariable();
+}
+
+/**
+ * Parser for a TCP/UDP port number (an integer between 1 and 65535)
+ * @returns A Variable of type number
+ */
+export function port(): PortVariable {
+    return new PortVariable();
+}
+
+/**
+ * Parser for a duration such as `30s`, `5m` or `1h30m`.
+ * The supported units are `ms`, `s`, `m`, `h` and `d`.
+ * @returns A Variable of the duration in milliseconds
+ *
+ * @example
+ * ```ts
+ * { REQUEST_TIMEOUT: EVP.duration().default(30 * 1000) }
+ * ```
+ */
+export function duration(): DurationVariable {
+    return new DurationVariable();
+}
+
+/**
+ * Parser for a byte size such as `512MiB` or `2GB`.
+ * Binary (`KiB`, `MiB`, `GiB`, ...) and decimal (`KB`, `MB`, `GB`, ...) units are supported; a bare number is the number of bytes.
+ * @returns A Variable of the size in bytes
+ */
+export function bytes(): BytesVariable {
+    return new BytesVariable();
+}
+
+/**
+ * Create a Variable that splits the value by a separator (`,` by default) and parses each element
+ * @param element - The parser for each element
+ * @returns A Variable of an array
+ *
+ * @example
+ * ```ts
+ * { ALLOWED_ORIGINS: EVP.array(EVP.string()).trim() }
+ * { RETRY_DELAYS: EVP.array(EVP.number()).separator(' ').minLength(1) }
+ * ```
+ */
+export function array<T>(element: Variable<T>): ArrayVariable<T> {
+    return new ArrayVariable(element);
+}
+
+/**
+ * Create a Variable validated by a Standard Schema, such as a zod, valibot or arktype schema.
+ * The schema receives the raw string, or the decoded value if `.json()` is specified.
+ * @param schema - The schema to validate the value with
+ * @returns A Variable of the output type of the schema
+ *
+ * @example
+ * ```ts
+ * { LOG_LEVEL: EVP.schema(z.enum(['debug', 'info'])) }
+ * { RETRY_POLICY: EVP.schema(z.object({ retries: z.number() })).json() }
+ * ```
+ */
+export function schema<T>(
+    schema: StandardSchemaV1<unknown, T>,
+): SchemaVariable<T> {
+    return new SchemaVariable(schema);
+}
+
+/**
+ * Parser for a JSON value such as `{"a":true}` or `[1,2,3]`.
+ * Syntax errors are reported with the line and column, without the value itself.
+ * @param validator - A Standard Schema, or a function that returns the value or throws an error
+ * @returns A Variable of the decoded value
+ *
+ * @example
+ * ```ts
+ * { FEATURE_FLAGS: EVP.json<Record<string, boolean>>().default({}) }
+ * { RETRY_POLICY: EVP.json(z.array(z.number())) }
+ * ```
+ */
+export function json<T = unknown>(
+    validator?: JsonValidator<T>,
+): JsonVariable<T> {
+    return new JsonVariable(validator);
+}
+
 /**
  * Create a parser from a record of parsers
  * @typeparam T - The type of the object
@@ -96,6 +242,29 @@ export function emptyObject(): ObjectParser<Record<string, never>> {
     return new ObjectParser({});
 }
 
+/**
+ * Create a parser for repeated groups of variables, such as `UPSTREAM_0_HOST`, `UPSTREAM_1_HOST`, ...
+ * The indices are discovered from the environment, and the results are sorted by index.
+ * @param prefix - The prefix of the variables, followed by the index and an underscore
+ * @param template - The parser for each group
+ * @returns An IndexedParser
+ *
+ * @example
+ * ```ts
+ * { upstreams: EVP.indexed('UPSTREAM_', EVP.object({
+ *     HOST: EVP.string(),
+ *     PORT: EVP.number(),
+ *   }))
+ * }
+ * ```
+ */
+export function indexed<T>(
+    prefix: string,
+    template: ObjectParser<T>,
+): IndexedParser<T> {
+    return new IndexedParser(prefix, template);
+}
+
 /**
  * Create a dynamically-switched parser based on the value.
  * Use `.options()` to add options, and use `.discriminator()` to specify the field that propagates the switching value.
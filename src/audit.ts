@@ -0,0 +1,51 @@
+import { LogEvent, LogEventKind } from './logger';
+
+/** AuditReport lists the names of the variables by how they were handled by the parser */
+export type AuditReport = {
+    /** variables read from the input */
+    supplied: string[];
+    /** variables that are not set and fell back to the default values */
+    defaulted: string[];
+    /** required variables that are not set */
+    missing: string[];
+    /** variables that are set but failed to parse */
+    invalid: string[];
+    /** variables with the assumed prefixes that are set but not read by the parser */
+    unused: string[];
+    /** deprecated variables and aliases that are set */
+    deprecated: string[];
+};
+
+const categories: Record<LogEventKind, keyof AuditReport | undefined> = {
+    parsed: 'supplied',
+    default: 'defaulted',
+    missing: 'missing',
+    invalid: 'invalid',
+    unused: 'unused',
+    deprecated: 'deprecated',
+    // only emitted by watchers
+    restart: undefined,
+};
+
+export function emptyReport(): AuditReport {
+    return {
+        supplied: [],
+        defaulted: [],
+        missing: [],
+        invalid: [],
+        unused: [],
+        deprecated: [],
+    };
+}
+
+/** add the variable of the event to the report */
+export function record(report: AuditReport, event: LogEvent): void {
+    const category = categories[event.kind];
+    if (category === undefined) {
+        return;
+    }
+    const names = report[category];
+    if (!names.includes(event.envName)) {
+        names.push(event.envName);
+    }
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main } from './command';
+
+const fixture = join(__dirname, '__fixtures__', 'parser.ts');
+
+function envFile(dir: string, name: string, content: string): string {
+    const path = join(dir, name);
+    writeFileSync(path, content);
+    return path;
+}
+
+describe('evp', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    test('check', async () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        const env = envFile(dir, '.env', 'APP_HOST=localhost\nAPP_PORT=80a\n');
+        const local = envFile(dir, '.env.local', 'APP_PORT=9090\n');
+
+        expect(
+            await main(['check', '--parser', fixture, '--env-file', env]),
+        ).toBe(1);
+        expect(error.mock.calls).toEqual([['INVALID: APP_PORT: invalid port']]);
+
+        // later files take precedence
+        expect(
+            await main([
+                'check',
+                '--parser',
+                fixture,
+                '--env-file',
+                env,
+                '--env-file',
+                local,
+            ]),
+        ).toBe(0);
+        expect(log.mock.calls).toEqual([['OK']]);
+    });
+
+    test('check with --export', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        const env = envFile(dir, '.env', 'APP_HOST=localhost\n');
+
+        expect(
+            await main([
+                'check',
+                '--parser',
+                fixture,
+                '--export',
+                'worker',
+                '--env-file',
+                env,
+            ]),
+        ).toBe(1);
+        expect(error.mock.calls).toEqual([
+            ['MISSING: WORKER_QUEUE: missing environment variable'],
+        ]);
+        await expect(
+            main(['check', '--parser', fixture, '--export', 'unknown']),
+        ).rejects.toThrow(`${fixture} does not export a parser named unknown`);
+    });
+
+    test('check with --reject-unused', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        const env = envFile(dir, '.env', 'APP_HOST=localhost\nAPP_DEBUG=1\n');
+
+        expect(
+            await main([
+                'check',
+                '--parser',
+                fixture,
+                '--env-file',
+                env,
+                '--reject-unused',
+            ]),
+        ).toBe(1);
+        expect(error.mock.calls).toEqual([
+            ['UNUSED: APP_DEBUG: unused environment variable'],
+        ]);
+    });
+
+    test('describe', async () => {
+        const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+        expect(
+            await main(['describe', '--parser', fixture, '--export', 'worker']),
+        ).toBe(0);
+        expect(log.mock.calls).toEqual([
+            ['# the name of the queue\nWORKER_QUEUE=<string>'],
+        ]);
+    });
+
+    test('usage', async () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+        expect(await main(['check'])).toBe(2);
+        expect(error).toHaveBeenCalledTimes(1);
+    });
+});
@@ -0,0 +1,117 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { parseDotenv } from './dotenv';
+import { Input, ObjectParser } from './mod';
+
+const usage = `Usage:
+  evp check --parser <module> [--export <name>] [--env-file <path>]... [--reject-unused]
+  evp describe --parser <module> [--export <name>]
+
+Options:
+  --parser <module>   the module exporting the parser
+  --export <name>     the name of the export (default: the default export or the first parser found)
+  --env-file <path>   check the dotenv file instead of the current environment (can be repeated; later files take precedence)
+  --reject-unused     fail if there are unused variables with the prefixes assumed by the parser
+
+To load a TypeScript module, register a loader such as tsx: NODE_OPTIONS='--import tsx' evp check ...`;
+
+function isParser(value: unknown): value is ObjectParser<unknown> {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        'safeParse' in value &&
+        typeof value.safeParse === 'function' &&
+        'describe' in value &&
+        typeof value.describe === 'function'
+    );
+}
+
+async function loadParser(
+    path: string,
+    name?: string,
+): Promise<ObjectParser<unknown>> {
+    const module = await import(pathToFileURL(resolve(path)).href);
+    // CommonJS modules are exposed as the default export
+    const exports = [module, module.default];
+    const candidates =
+        name === undefined
+            ? [
+                  module.default,
+                  ...exports.flatMap((e) => Object.values(e ?? {})),
+              ]
+            : exports.map((e) => e?.[name]);
+    const parser = candidates.find(isParser);
+    if (parser === undefined) {
+        throw new Error(
+            name === undefined
+                ? `${path} does not export a parser`
+                : `${path} does not export a parser named ${name}`,
+        );
+    }
+    return parser;
+}
+
+function readEnvFiles(paths: string[]): Input | undefined {
+    if (paths.length === 0) {
+        return undefined;
+    }
+    return paths.map((path) => ({
+        name: path,
+        values: parseDotenv(readFileSync(path, 'utf8')),
+    }));
+}
+
+/**
+ * run the command line interface
+ * @returns the exit code
+ */
+export async function main(args: string[]): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            parser: { type: 'string' },
+            export: { type: 'string' },
+            'env-file': { type: 'string', multiple: true },
+            'reject-unused': { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' },
+        },
+    });
+    const [command] = positionals;
+    if (values.help) {
+        console.log(usage);
+        return 0;
+    }
+    if (
+        positionals.length !== 1 ||
+        !['check', 'describe'].includes(command) ||
+        values.parser === undefined
+    ) {
+        console.error(usage);
+        return 2;
+    }
+    const parser = await loadParser(values.parser, values.export);
+    if (command === 'describe') {
+        console.log(parser.describe());
+        return 0;
+    }
+    parser.reportUnused();
+    if (values['reject-unused']) {
+        parser.rejectUnused();
+    }
+    const result = parser.safeParse(readEnvFiles(values['env-file'] ?? []));
+    if (result.success) {
+        console.log('OK');
+        return 0;
+    }
+    for (const issue of result.error.issues) {
+        const path = issue.path.join('.');
+        const field = path === '' || path === issue.envName ? '' : ` (${path})`;
+        console.error(
+            `${issue.reason.toUpperCase()}: ${issue.envName}${field}: ${issue.message}`,
+        );
+    }
+    return 1;
+}
@@ -0,0 +1,53 @@
+/** DocEntry describes a single environment variable for documentation */
+export type DocEntry = {
+    name: string;
+    /** the metavariable or the type of the value, e.g. `<number>` */
+    metavar: string;
+    default?: string;
+    required: boolean;
+    secret: boolean;
+    description?: string;
+    /** the union options the variable belongs to, e.g. `DATA_SOURCE=mysql` */
+    branch?: string;
+};
+
+/** DocFormatter renders the entries into a document */
+export interface DocFormatter {
+    format(entries: DocEntry[]): string;
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+function code(text: string | undefined): string {
+    return text === undefined || text === '' ? '' : `\`${text}\``;
+}
+
+/** MarkdownTableFormatter renders the entries as a Markdown table */
+export class MarkdownTableFormatter implements DocFormatter {
+    public format(entries: DocEntry[]): string {
+        const hasBranch = entries.some((entry) => entry.branch !== undefined);
+        const header = [
+            'Name',
+            'Type',
+            'Default',
+            'Required',
+            'Secret',
+            'Description',
+            ...(hasBranch ? ['Condition'] : []),
+        ];
+        const rows = entries.map((entry) => [
+            code(entry.name),
+            code(entry.metavar),
+            code(entry.default),
+            entry.required ? 'yes' : 'no',
+            entry.secret ? 'yes' : 'no',
+            entry.description ?? '',
+            ...(hasBranch ? [code(entry.branch)] : []),
+        ]);
+        return [header, header.map(() => '---'), ...rows]
+            .map((row) => `| ${row.map(escapeCell).join(' | ')} |`)
+            .join('\n');
+    }
+}
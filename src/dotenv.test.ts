@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadEnv, parseDotenv, stringifyDotenv } from './dotenv';
+
+describe('parseDotenv', () => {
+    test('parse values', () => {
+        const text = [
+            '# comment',
+            '',
+            'PLAIN=value',
+            'export EXPORTED=exported',
+            'SPACES = trimmed  # comment',
+            'HASH=a#b',
+            "SINGLE='${PLAIN} \\n' # comment",
+            'DOUBLE="tab\\tnewline\\nquote\\"dollar\\${PLAIN}"',
+            'MULTILINE="line 1',
+            'line 2"',
+            'INTERPOLATED=${PLAIN}-${UNKNOWN}-${EXTERNAL}',
+            'EMPTY=',
+        ].join('\n');
+        expect(
+            parseDotenv(text, (name) =>
+                name === 'EXTERNAL' ? 'external' : undefined,
+            ),
+        ).toEqual({
+            PLAIN: 'value',
+            EXPORTED: 'exported',
+            SPACES: 'trimmed',
+            HASH: 'a#b',
+            SINGLE: '${PLAIN} \\n',
+            DOUBLE: 'tab\tnewline\nquote"dollar${PLAIN}',
+            MULTILINE: 'line 1\nline 2',
+            INTERPOLATED: 'value--external',
+            EMPTY: '',
+        });
+    });
+
+    test('reject invalid lines', () => {
+        expect(() => parseDotenv('FOO=bar\nnot a variable')).toThrow(
+            'line 2: invalid line',
+        );
+        expect(() => parseDotenv('FOO="bar')).toThrow(
+            'line 1: unterminated quoted value',
+        );
+        expect(() => parseDotenv("FOO='bar' baz")).toThrow(
+            'line 1: unexpected characters after the value',
+        );
+    });
+});
+
+describe('loadEnv', () => {
+    test('load dotenv files in order of precedence', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        writeFileSync(join(dir, '.env'), 'A=env\nB=env\nC=env\nD=env\n');
+        writeFileSync(join(dir, '.env.local'), 'B=local\nC=local\nD=local\n');
+        writeFileSync(
+            join(dir, '.env.production'),
+            'C=production\nD=production\nE=${B}-${D}-${F}\n',
+        );
+        const sources = loadEnv({
+            dir,
+            mode: 'production',
+            env: { D: 'real', F: 'real' },
+        });
+        expect(sources).toEqual([
+            {
+                name: '.env',
+                values: { A: 'env', B: 'env', C: 'env', D: 'env' },
+            },
+            {
+                name: '.env.local',
+                values: { B: 'local', C: 'local', D: 'local' },
+            },
+            {
+                name: '.env.production',
+                values: {
+                    C: 'production',
+                    D: 'production',
+                    E: 'local-production-real',
+                },
+            },
+            { values: { D: 'real', F: 'real' } },
+        ]);
+    });
+});
+
+describe('stringifyDotenv', () => {
+    test('round trip', () => {
+        const values = {
+            PLAIN: 'value',
+            URL: 'https://user@example.com:8080/path',
+            EMPTY: '',
+            SPACES: ' with spaces ',
+            SPECIAL: 'quote" backslash\\ dollar${PLAIN} hash#',
+            MULTILINE: 'line 1\nline 2\r\n\tindented',
+        };
+        const text = stringifyDotenv(values);
+        expect(text).toEqual(
+            [
+                'PLAIN=value',
+                'URL=https://user@example.com:8080/path',
+                'EMPTY=',
+                'SPACES=" with spaces "',
+                'SPECIAL="quote\\" backslash\\\\ dollar\\${PLAIN} hash#"',
+                'MULTILINE="line 1\\nline 2\\r\\n\\tindented"',
+                '',
+            ].join('\n'),
+        );
+        expect(parseDotenv(text)).toEqual(values);
+    });
+});
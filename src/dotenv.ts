@@ -0,0 +1,168 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import type { Source } from './mod';
+
+const escapes: Record<string, string> = {
+    n: '\n',
+    r: '\r',
+    t: '\t',
+};
+
+const unescapes: Record<string, string> = {
+    '\n': 'n',
+    '\r': 'r',
+    '\t': 't',
+};
+
+/**
+ * Parse the content of a dotenv file.
+ * - `KEY=value` with an optional `export ` prefix; `#` starts a comment
+ * - single-quoted values are taken literally and may span multiple lines
+ * - double-quoted values may span multiple lines and support `\n`, `\r`, `\t`, `\"`, `\\` and `\$` escapes
+ * - `${VAR}` in unquoted and double-quoted values is replaced with a variable defined earlier in the file,
+ *   or the result of `lookup` (the empty string if neither is found)
+ */
+export function parseDotenv(
+    text: string,
+    lookup: (name: string) => string | undefined = () => undefined,
+): Record<string, string> {
+    const result: Record<string, string> = {};
+    const resolve = (name: string) => result[name] ?? lookup(name) ?? '';
+    const interpolate = (value: string) =>
+        value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_, name) =>
+            resolve(name),
+        );
+    const fail = (pos: number, message: string): never => {
+        const line = text.slice(0, pos).split('\n').length;
+        throw new Error(`line ${line}: ${message}`);
+    };
+    const key =
+        /[ \t]*(?:export[ \t]+)?([A-Za-z_][A-Za-z0-9_.-]*)[ \t]*=[ \t]*/y;
+    const rest = /[ \t]*(?:#[^\n]*)?(?:\r?\n|$)/y;
+    let pos = 0;
+    while (pos < text.length) {
+        // skip blank lines and comments
+        rest.lastIndex = pos;
+        const blank = rest.exec(text);
+        if (blank !== null && blank[0] !== '') {
+            pos = rest.lastIndex;
+            continue;
+        }
+        key.lastIndex = pos;
+        const match = key.exec(text);
+        if (match === null) {
+            return fail(pos, 'invalid line');
+        }
+        pos = key.lastIndex;
+        let value = '';
+        if (text[pos] === "'") {
+            const end = text.indexOf("'", pos + 1);
+            if (end === -1) {
+                return fail(pos, 'unterminated quoted value');
+            }
+            value = text.slice(pos + 1, end);
+            pos = end + 1;
+        } else if (text[pos] === '"') {
+            let i = pos + 1;
+            for (; i < text.length && text[i] !== '"'; i++) {
+                if (text[i] === '\\' && i + 1 < text.length) {
+                    i++;
+                    value += escapes[text[i]] ?? text[i];
+                } else if (text.startsWith('${', i)) {
+                    const end = text.indexOf('}', i);
+                    const name = end === -1 ? '' : text.slice(i + 2, end);
+                    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+                        return fail(i, 'invalid interpolation');
+                    }
+                    value += resolve(name);
+                    i = end;
+                } else {
+                    value += text[i];
+                }
+            }
+            if (i >= text.length) {
+                return fail(pos, 'unterminated quoted value');
+            }
+            pos = i + 1;
+        } else {
+            const end = text.indexOf('\n', pos);
+            const line = text.slice(pos, end === -1 ? text.length : end);
+            value = interpolate(line.replace(/(^|[ \t])#.*$/, '').trim());
+            pos += line.length;
+        }
+        rest.lastIndex = pos;
+        if (rest.exec(text) === null) {
+            return fail(pos, 'unexpected characters after the value');
+        }
+        pos = rest.lastIndex;
+        result[match[1]] = value;
+    }
+    return result;
+}
+
+/**
+ * Render the variables as the content of a dotenv file that `parseDotenv` reads back.
+ * Values other than simple words are double-quoted with `\n`, `\r`, `\t`, `\"`, `\\` and `\$` escaped.
+ */
+export function stringifyDotenv(values: Record<string, string>): string {
+    return Object.entries(values)
+        .map(([key, value]) => {
+            if (/^[A-Za-z0-9_.,:/@+-]*$/.test(value)) {
+                return `${key}=${value}\n`;
+            }
+            const escaped = value.replace(
+                /[\\"$\n\r\t]/g,
+                (c) => `\\${unescapes[c] ?? c}`,
+            );
+            return `${key}="${escaped}"\n`;
+        })
+        .join('');
+}
+
+export type LoadEnvOptions = {
+    /** also load `.env.<mode>` */
+    mode?: string;
+    /** the directory containing the dotenv files (default: the current directory) */
+    dir?: string;
+    /** the real environment (default: `process.env`) */
+    env?: Record<string, string | undefined>;
+};
+
+/**
+ * Load `.env`, `.env.local` and `.env.<mode>` as sources for `ObjectParser.parse()`.
+ * Later sources take precedence: `.env` < `.env.local` < `.env.<mode>` < the real environment.
+ * Missing files are skipped. `${VAR}` refers to a variable defined earlier in the same file,
+ * in the real environment, or in a file loaded earlier.
+ */
+export function loadEnv(options: LoadEnvOptions = {}): Source[] {
+    const dir = options.dir ?? process.cwd();
+    const env = options.env ?? process.env;
+    const names = ['.env', '.env.local'];
+    if (options.mode !== undefined) {
+        names.push(`.env.${options.mode}`);
+    }
+    const loaded: Record<string, string> = {};
+    const sources: Source[] = [];
+    for (const name of names) {
+        const path = join(dir, name);
+        if (!existsSync(path)) {
+            continue;
+        }
+        let values: Record<string, string>;
+        try {
+            values = parseDotenv(
+                readFileSync(path, 'utf8'),
+                (key) => env[key] ?? loaded[key],
+            );
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`${name}: ${error.message}`, { cause: error });
+            }
+            throw error;
+        }
+        Object.assign(loaded, values);
+        sources.push({ name, values });
+    }
+    sources.push({ values: env });
+    return sources;
+}
@@ -0,0 +1,26 @@
+/** The reason why a variable could not be accepted */
+export type IssueReason = 'missing' | 'invalid' | 'unused';
+
+/** A problem with a single environment variable */
+export type Issue = {
+    reason: IssueReason;
+    /** the name of the environment variable */
+    envName: string;
+    /** the path of the field in the parsed object */
+    path: string[];
+    /** the raw value of the variable, redacted if the variable is secret */
+    value?: string;
+    message: string;
+};
+
+/** EVPError is returned (or thrown) when the environment cannot be parsed */
+export class EVPError extends Error {
+    public constructor(
+        message: string,
+        public readonly issues: Issue[],
+        options?: ErrorOptions,
+    ) {
+        super(message, options);
+        this.name = 'EVPError';
+    }
+}
@@ -3,6 +3,10 @@ import { describe, expect, test, vi } from 'vitest';
 import { EVP } from '.';
 import { ILogger } from './logger';
 import * as winston from 'winston';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { inspect } from 'util';
 
 class TestLogger implements ILogger {
     public logs: string[] = [];
@@ -507,4 +511,1418 @@ describe('EVP', () => {
             expect(result.error.message).toEqual('Unused variables: APP_BAR');
         }
     });
+
+    test('audit', () => {
+        const report = EVP.object({
+            API_TOKEN: EVP.string().secret(),
+            HTTP_PORT: EVP.number(),
+            APP_NAME: EVP.string().default('app'),
+            APP_DEBUG: EVP.boolean().optional(),
+            APP_LOG_LEVEL: EVP.enum(['debug', 'info']),
+            DATA_SOURCE: EVP.union({
+                file: EVP.object({
+                    DATA_PATH: EVP.string(),
+                }),
+            }).tag('type'),
+        })
+            .assumePrefix('APP_')
+            .ignoreUnused(['APP_IGNORED'])
+            .audit({
+                API_TOKEN: 'secret',
+                HTTP_PORT: 'blah',
+                DATA_SOURCE: 'file',
+                APP_TYPO: 'typo',
+                APP_IGNORED: 'ignored',
+                HOME: '/home/user',
+            });
+        expect(report).toEqual({
+            supplied: ['API_TOKEN', 'DATA_SOURCE'],
+            defaulted: ['APP_NAME', 'APP_DEBUG'],
+            missing: ['APP_LOG_LEVEL', 'DATA_PATH'],
+            invalid: ['HTTP_PORT'],
+            unused: ['APP_TYPO'],
+            deprecated: [],
+        });
+    });
+
+    test('structured errors', () => {
+        const logger = new TestLogger();
+        const result = EVP.object({
+            API_TOKEN: EVP.string().secret(),
+            HTTP_PORT: EVP.number(),
+            DATA_SOURCE: EVP.union({
+                file: EVP.object({
+                    DATA_PATH: EVP.string(),
+                }),
+            }).tag('type'),
+            APP_MODE: EVP.enum(['development', 'production']),
+        })
+            .assumePrefix('APP_')
+            .rejectUnused()
+            .logger(logger)
+            .safeParse({
+                API_TOKEN: 'secret',
+                HTTP_PORT: 'blah',
+                DATA_SOURCE: 'file',
+                APP_MODE: 'development',
+                APP_TYPO: 'typo',
+            });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error).toBeInstanceOf(EVP.EVPError);
+            expect(result.error.issues).toEqual([
+                {
+                    reason: 'invalid',
+                    envName: 'HTTP_PORT',
+                    path: ['HTTP_PORT'],
+                    value: 'blah',
+                    message: 'invalid number',
+                },
+                {
+                    reason: 'missing',
+                    envName: 'DATA_PATH',
+                    path: ['DATA_SOURCE', 'DATA_PATH'],
+                    message: 'missing environment variable',
+                },
+                {
+                    reason: 'unused',
+                    envName: 'APP_TYPO',
+                    path: [],
+                    message: 'unused environment variable',
+                },
+            ]);
+        }
+    });
+
+    test('redact secrets in errors', () => {
+        const logger = new TestLogger();
+        const result = EVP.object({
+            API_PORT: EVP.number().secret(),
+        })
+            .logger(logger)
+            .safeParse({
+                API_PORT: 'secret',
+            });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues[0].value).toEqual('<SHA256:2bb80d53>');
+        }
+        expect(logger.logs).toEqual([
+            'API_PORT=<SHA256:2bb80d53> ERROR: invalid number',
+        ]);
+    });
+
+    test('redaction strategies', () => {
+        const logger = new TestLogger();
+        const result = EVP.object({
+            PIN: EVP.string().secret(),
+            API_TOKEN: EVP.string().secret(new EVP.LastCharsRedactor(4)),
+            SHORT_TOKEN: EVP.string().secret(new EVP.LastCharsRedactor(4)),
+            PASSWORD: EVP.string().secret(new EVP.LengthRedactor()),
+            db: EVP.object({
+                DB_PASSWORD: EVP.string().secret(),
+                DB_PORT: EVP.number().secret(),
+            }).redact(new EVP.MaskRedactor()),
+        })
+            .redact(new EVP.HmacRedactor('salt'))
+            .logger(logger)
+            .safeParse({
+                PIN: '1234',
+                API_TOKEN: 'token-0123456789',
+                SHORT_TOKEN: 'token',
+                PASSWORD: 'password',
+                DB_PASSWORD: 'secret',
+                DB_PORT: 'secret',
+            });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues[0].value).toEqual('<redacted>');
+        }
+        expect(logger.logs).toEqual([
+            'PIN=<HMAC:00adbc71>',
+            'API_TOKEN=<...6789>',
+            'SHORT_TOKEN=<redacted>',
+            'PASSWORD=<8 characters>',
+            'DB_PASSWORD=<redacted>',
+            'DB_PORT=<redacted> ERROR: invalid number',
+        ]);
+    });
+
+    test('secret wrapper', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            API_TOKEN: EVP.string().wrapSecret(),
+            DB_PASSWORD: EVP.string().default('password').wrapSecret(),
+            PORT: EVP.port().wrapSecret().optional(),
+        }).logger(logger);
+        const config: EVP.infer<typeof parser> = parser.parse({
+            API_TOKEN: 'secret',
+            PORT: '8080',
+        });
+        const token: string = config.API_TOKEN.reveal();
+        expect(token).toEqual('secret');
+        expect(config.DB_PASSWORD.reveal()).toEqual('password');
+        expect(config.PORT?.reveal()).toEqual(8080);
+        expect(`${config.API_TOKEN}`).toEqual('<secret>');
+        expect(JSON.stringify(config)).toEqual(
+            '{"API_TOKEN":"<secret>","DB_PASSWORD":"<secret>","PORT":"<secret>"}',
+        );
+        expect(inspect(config)).toEqual(
+            '{ API_TOKEN: <secret>, DB_PASSWORD: <secret>, PORT: <secret> }',
+        );
+        expect(logger.logs).toEqual([
+            'API_TOKEN=<SHA256:2bb80d53>',
+            'DB_PASSWORD=<SHA256:5e884898> (default)',
+            'PORT=<SHA256:6c237681>',
+        ]);
+    });
+
+    test('array', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            ALLOWED_ORIGINS: EVP.array(EVP.string()).trim(),
+            PORTS: EVP.array(EVP.number()).separator(':').minLength(1),
+            MODES: EVP.array(EVP.enum(['a', 'b'])).default([]),
+        });
+        const config = parser.logger(logger).parse({
+            ALLOWED_ORIGINS: 'a.example.com, b.example.com',
+            PORTS: '80:443',
+        });
+        expect(config).toEqual({
+            ALLOWED_ORIGINS: ['a.example.com', 'b.example.com'],
+            PORTS: [80, 443],
+            MODES: [],
+        });
+        expect(logger.logs).toEqual([
+            'ALLOWED_ORIGINS=a.example.com,b.example.com',
+            'PORTS=80:443',
+            'MODES= (default)',
+        ]);
+        expect(parser.describe()).toMatchSnapshot();
+    });
+
+    test('reject invalid array elements', () => {
+        const logger = new TestLogger();
+        const result = EVP.object({
+            PORTS: EVP.array(EVP.number()),
+            HOSTS: EVP.array(EVP.string()).maxLength(2),
+        })
+            .logger(logger)
+            .safeParse({
+                PORTS: '80,blah',
+                HOSTS: 'a,b,c',
+            });
+        expect(result.success).toBe(false);
+        expect(logger.logs).toEqual([
+            'PORTS=80,blah ERROR: index 1: invalid number',
+            'HOSTS=a,b,c ERROR: it must have at most 2 elements, but got 3',
+        ]);
+    });
+
+    test('indexed', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            upstreams: EVP.indexed(
+                'UPSTREAM_',
+                EVP.object({
+                    HOST: EVP.string(),
+                    PORT: EVP.number().default(80),
+                }),
+            ),
+        })
+            .assumePrefix('UPSTREAM_')
+            .rejectUnused()
+            .logger(logger);
+        const config = parser.parse({
+            UPSTREAM_1_HOST: 'b.example.com',
+            UPSTREAM_0_HOST: 'a.example.com',
+            UPSTREAM_0_PORT: '8080',
+        });
+        expect(config).toEqual({
+            upstreams: [
+                { HOST: 'a.example.com', PORT: 8080 },
+                { HOST: 'b.example.com', PORT: 80 },
+            ],
+        });
+        expect(parser.describe()).toMatchSnapshot();
+
+        const result = parser.safeParse({
+            UPSTREAM_0_PORT: '8080',
+            UPSTREAM_0_TYPO: 'typo',
+        });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(
+                result.error.issues.map(({ reason, envName, path }) => ({
+                    reason,
+                    envName,
+                    path,
+                })),
+            ).toEqual([
+                {
+                    reason: 'missing',
+                    envName: 'UPSTREAM_0_HOST',
+                    path: ['upstreams', '0', 'HOST'],
+                },
+                {
+                    reason: 'unused',
+                    envName: 'UPSTREAM_0_TYPO',
+                    path: [],
+                },
+            ]);
+        }
+    });
+
+    test('structured events', () => {
+        const events: EVP.LogEvent[] = [];
+        const logger = new TestLogger();
+        const result = EVP.object({
+            API_TOKEN: EVP.string().secret(),
+            HTTP_PORT: EVP.number(),
+            LOG_LEVEL: EVP.enum(['debug', 'info']).default('info'),
+            DATABASE_URL: EVP.url(),
+            APP_NAME: EVP.string(),
+        })
+            .assumePrefix('APP_')
+            .reportUnused()
+            .logger({
+                info: (message) => logger.info(message),
+                error: (message) => logger.error(message),
+                event: (event) => events.push(event),
+            })
+            .safeParse([
+                {
+                    name: '.env',
+                    values: { API_TOKEN: 'secret', APP_TYPO: 'typo' },
+                },
+                { values: { HTTP_PORT: 'blah', APP_NAME: 'app' } },
+            ]);
+        expect(result.success).toBe(false);
+        expect(logger.logs).toEqual([]);
+        expect(events).toEqual([
+            {
+                kind: 'parsed',
+                envName: 'API_TOKEN',
+                displayValue: '<SHA256:2bb80d53>',
+                isSecret: true,
+                source: '.env',
+            },
+            {
+                kind: 'invalid',
+                envName: 'HTTP_PORT',
+                displayValue: 'blah',
+                isSecret: false,
+                message: 'invalid number',
+            },
+            {
+                kind: 'default',
+                envName: 'LOG_LEVEL',
+                displayValue: 'info',
+                isSecret: false,
+            },
+            {
+                kind: 'missing',
+                envName: 'DATABASE_URL',
+                displayValue: 'undefined',
+                isSecret: false,
+                message: 'missing environment variable',
+            },
+            {
+                kind: 'parsed',
+                envName: 'APP_NAME',
+                displayValue: 'app',
+                isSecret: false,
+                source: undefined,
+            },
+            {
+                kind: 'unused',
+                envName: 'APP_TYPO',
+                isSecret: false,
+            },
+        ]);
+        expect(events.map(EVP.formatEvent)).toEqual([
+            'API_TOKEN=<SHA256:2bb80d53> (from .env)',
+            'HTTP_PORT=blah ERROR: invalid number',
+            'LOG_LEVEL=info (default)',
+            'DATABASE_URL=undefined ERROR: missing environment variable',
+            'APP_NAME=app',
+            'APP_TYPO is unused',
+        ]);
+    });
+
+    test('aliases and deprecated variables', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            DATABASE_URL: EVP.string().alias('DB_URL', 'DB_URI'),
+            db: EVP.object({
+                PASSWORD: EVP.string().secret().alias('PASS').optional(),
+            }).prefix('DB_'),
+            LEGACY_MODE: EVP.boolean()
+                .default(false)
+                .deprecated('it has no effect'),
+        })
+            .assumePrefix('DB_')
+            .rejectUnused()
+            .logger(logger);
+        expect(
+            parser.parse({
+                DB_URL: 'mysql://localhost',
+                DB_URI: 'mysql://localhost',
+                DB_PASS: 'secret',
+                LEGACY_MODE: 'true',
+            }),
+        ).toEqual({
+            DATABASE_URL: 'mysql://localhost',
+            db: { PASSWORD: 'secret' },
+            LEGACY_MODE: true,
+        });
+        expect(logger.logs).toEqual([
+            'DB_URL is deprecated: use DATABASE_URL instead',
+            'DB_URL=mysql://localhost',
+            'DB_PASS is deprecated: use DB_PASSWORD instead',
+            'DB_PASS=<SHA256:2bb80d53>',
+            'LEGACY_MODE is deprecated: it has no effect',
+            'LEGACY_MODE=true',
+        ]);
+
+        logger.logs = [];
+        const result = parser.safeParse({
+            DATABASE_URL: 'mysql://localhost',
+            DB_URL: 'mysql://127.0.0.1',
+            DB_PASSWORD: 'secret',
+            DB_PASS: 'password',
+        });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues).toEqual([
+                {
+                    reason: 'invalid',
+                    envName: 'DATABASE_URL',
+                    path: ['DATABASE_URL'],
+                    value: 'mysql://localhost',
+                    message: 'DB_URL is also set to a different value',
+                },
+                {
+                    reason: 'invalid',
+                    envName: 'DB_PASSWORD',
+                    path: ['db', 'PASSWORD'],
+                    value: '<SHA256:2bb80d53>',
+                    message: 'DB_PASS is also set to a different value',
+                },
+            ]);
+        }
+        expect(parser.describe()).toMatchSnapshot();
+        expect(parser.audit({ DB_URL: 'mysql://localhost' })).toEqual({
+            supplied: ['DB_URL'],
+            defaulted: ['DB_PASSWORD', 'LEGACY_MODE'],
+            missing: [],
+            invalid: [],
+            unused: [],
+            deprecated: ['DB_URL'],
+        });
+
+        // aliases and deprecation are kept by .map()
+        const mapped = EVP.object({
+            TIMEOUT_MS: EVP.string().alias('TIMEOUT').map(Number),
+            RETRIES: EVP.string().deprecated('it has no effect').map(Number),
+        }).logger(logger);
+        logger.logs = [];
+        expect(mapped.parse({ TIMEOUT: '100', RETRIES: '3' })).toEqual({
+            TIMEOUT_MS: 100,
+            RETRIES: 3,
+        });
+        expect(logger.logs).toEqual([
+            'TIMEOUT is deprecated: use TIMEOUT_MS instead',
+            'TIMEOUT=100',
+            'RETRIES is deprecated: it has no effect',
+            'RETRIES=3',
+        ]);
+
+        // aliases are also read from files
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        writeFileSync(join(dir, 'password'), 'secret\n');
+        const files = EVP.object({
+            DATABASE_PASSWORD: EVP.string().fromFile().alias('DB_PASSWORD'),
+            db: EVP.object({ HOST: EVP.string().default('localhost') }),
+        })
+            .assumePrefix('')
+            .rejectUnused()
+            .logger(new TestLogger());
+        expect(
+            files.parse({ DB_PASSWORD_FILE: join(dir, 'password') }),
+        ).toEqual({ DATABASE_PASSWORD: 'secret', db: { HOST: 'localhost' } });
+        // the names of nested objects are not variables
+        const unused = files.safeParse({
+            DB_PASSWORD_FILE: join(dir, 'password'),
+            db: 'x',
+        });
+        expect(!unused.success && unused.error.message).toEqual(
+            'Unused variables: db',
+        );
+    });
+
+    test('verbosity', () => {
+        const logs: string[] = [];
+        const logger: ILogger = {
+            info: (message) => logs.push(`info: ${message}`),
+            error: (message) => logs.push(`error: ${message}`),
+            warn: (message) => logs.push(`warn: ${message}`),
+            debug: (message) => logs.push(`debug: ${message}`),
+        };
+        const parser = EVP.object({
+            APP_HOST: EVP.string(),
+            APP_PORT: EVP.port().default(8080),
+            APP_DEBUG: EVP.boolean().deprecated('use APP_LOG_LEVEL instead'),
+            APP_TIMEOUT: EVP.duration(),
+        })
+            .assumePrefix('APP_')
+            .reportUnused()
+            .logger(logger);
+        const input = {
+            APP_HOST: 'localhost',
+            APP_DEBUG: 'true',
+            APP_TYPO: 'typo',
+        };
+        parser.safeParse(input);
+        expect(logs).toEqual([
+            'info: APP_HOST=localhost',
+            'info: APP_PORT=8080 (default)',
+            'warn: APP_DEBUG is deprecated: use APP_LOG_LEVEL instead',
+            'info: APP_DEBUG=true',
+            'error: APP_TIMEOUT=undefined ERROR: missing environment variable',
+            'warn: APP_TYPO is unused',
+        ]);
+
+        logs.length = 0;
+        parser.verbosity('warn').safeParse(input);
+        expect(logs).toEqual([
+            'warn: APP_DEBUG is deprecated: use APP_LOG_LEVEL instead',
+            'error: APP_TIMEOUT=undefined ERROR: missing environment variable',
+            'warn: APP_TYPO is unused',
+        ]);
+
+        logs.length = 0;
+        parser.verbosity('silent').safeParse(input);
+        expect(logs).toEqual([]);
+    });
+
+    test('prefix', () => {
+        const logger = new TestLogger();
+        const connection = () =>
+            EVP.object({
+                HOST: EVP.string(),
+                PORT: EVP.number().default(5432),
+            });
+        const parser = EVP.object({
+            primary: connection().prefix('PRIMARY_'),
+            replica: connection().prefix('REPLICA_'),
+            ANALYTICS: EVP.union({
+                none: EVP.object({}),
+                postgres: EVP.object({
+                    db: connection().prefix('DB_'),
+                }).prefix('ANALYTICS_'),
+            }).default('none'),
+        })
+            .prefix('APP_')
+            .assumePrefix('APP_')
+            .rejectUnused()
+            .logger(logger);
+        const config = parser.parse({
+            APP_PRIMARY_HOST: 'primary',
+            APP_REPLICA_HOST: 'replica',
+            APP_REPLICA_PORT: '5433',
+            APP_ANALYTICS: 'postgres',
+            APP_ANALYTICS_DB_HOST: 'analytics',
+        });
+        expect(config).toEqual({
+            primary: { HOST: 'primary', PORT: 5432 },
+            replica: { HOST: 'replica', PORT: 5433 },
+            ANALYTICS: { db: { HOST: 'analytics', PORT: 5432 } },
+        });
+        expect(logger.logs).toEqual([
+            'APP_PRIMARY_HOST=primary',
+            'APP_PRIMARY_PORT=5432 (default)',
+            'APP_REPLICA_HOST=replica',
+            'APP_REPLICA_PORT=5433',
+            'APP_ANALYTICS_DB_HOST=analytics',
+            'APP_ANALYTICS_DB_PORT=5432 (default)',
+        ]);
+        expect(parser.describe()).toMatchSnapshot();
+    });
+
+    test('url, port, duration and bytes', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            API_ENDPOINT: EVP.url().protocols('http', 'https'),
+            HTTP_PORT: EVP.port(),
+            TIMEOUT: EVP.duration(),
+            INTERVAL: EVP.duration().default(90 * 60 * 1000),
+            MEMORY_LIMIT: EVP.bytes(),
+            CACHE_SIZE: EVP.bytes().default(512 * 1024 * 1024),
+        });
+        const config = parser.logger(logger).parse({
+            API_ENDPOINT: 'https://example.com/api',
+            HTTP_PORT: '8080',
+            TIMEOUT: '1h30m15s',
+            MEMORY_LIMIT: '2GB',
+        });
+        expect(config).toEqual({
+            API_ENDPOINT: new URL('https://example.com/api'),
+            HTTP_PORT: 8080,
+            TIMEOUT: 5415000,
+            INTERVAL: 5400000,
+            MEMORY_LIMIT: 2000000000,
+            CACHE_SIZE: 536870912,
+        });
+        expect(parser.describe()).toMatchSnapshot();
+        const duration = EVP.duration();
+        expect(duration.parse('2.3h')).toEqual(8280000);
+        expect(duration.format(duration.parse('2.3h'))).toEqual('2h18m');
+        expect(duration.parse('1.5ms')).toEqual(2);
+    });
+
+    test('reject invalid url, port, duration and bytes', () => {
+        const logger = new TestLogger();
+        const result = EVP.object({
+            A: EVP.url(),
+            B: EVP.url().protocols('http', 'https'),
+            C: EVP.port(),
+            D: EVP.port(),
+            E: EVP.duration(),
+            F: EVP.bytes(),
+            G: EVP.bytes(),
+        })
+            .logger(logger)
+            .safeParse({
+                A: 'example.com',
+                B: 'ftp://example.com',
+                C: '80abc',
+                D: '70000',
+                E: '5 minutes',
+                F: '1.5B',
+                G: '2XB',
+            });
+        expect(result.success).toBe(false);
+        expect(logger.logs).toEqual([
+            'A=example.com ERROR: invalid URL',
+            'B=ftp://example.com ERROR: the protocol must be http or https, but got ftp',
+            'C=80abc ERROR: invalid port',
+            'D=70000 ERROR: it must be between 1 and 65535, but got 70000',
+            'E=5 minutes ERROR: invalid duration',
+            'F=1.5B ERROR: it must be a whole number of bytes',
+            'G=2XB ERROR: unknown unit XB',
+        ]);
+    });
+
+    test('numeric constraints', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            WORKERS: EVP.number().int().positive(),
+            RATIO: EVP.number().min(0).max(1).description('sampling ratio'),
+            PORT: EVP.number().strict(),
+            RETRIES: EVP.number().int().min(0).optional(),
+        });
+        expect(parser.describe()).toMatchSnapshot();
+        const result = parser.logger(logger).safeParse({
+            WORKERS: '2.5',
+            RATIO: '1.5',
+            PORT: '80abc',
+            RETRIES: '-1',
+        });
+        expect(result.success).toBe(false);
+        expect(logger.logs).toEqual([
+            'WORKERS=2.5 ERROR: it must be an integer, but got 2.5',
+            'RATIO=1.5 ERROR: it must be at most 1, but got 1.5',
+            'PORT=80abc ERROR: invalid number',
+            'RETRIES=-1 ERROR: it must be at least 0, but got -1',
+        ]);
+        const config = parser.parse({
+            WORKERS: '4',
+            RATIO: '0.5',
+            PORT: '8080',
+        });
+        expect(config).toEqual({
+            WORKERS: 4,
+            RATIO: 0.5,
+            PORT: 8080,
+            RETRIES: undefined,
+        });
+    });
+
+    test('string constraints', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            API_TOKEN: EVP.string().secret().nonEmpty(),
+            REGION: EVP.string().regex(/^[a-z]+-[a-z]+-\d$/),
+            BUCKET: EVP.string().regex(/^[a-z0-9-]+$/, 'invalid bucket name'),
+            NAME: EVP.string().trim().minLength(3).maxLength(8),
+        });
+        expect(parser.describe()).toMatchSnapshot();
+        const result = parser.logger(logger).safeParse({
+            API_TOKEN: '',
+            REGION: 'tokyo',
+            BUCKET: 'My_Bucket',
+            NAME: '  ab  ',
+        });
+        expect(result.success).toBe(false);
+        expect(logger.logs).toEqual([
+            'API_TOKEN=<empty string> ERROR: it must not be empty',
+            'REGION=tokyo ERROR: it must match /^[a-z]+-[a-z]+-\\d$/',
+            'BUCKET=My_Bucket ERROR: invalid bucket name',
+            'NAME=  ab   ERROR: it must be at least 3 characters long, but got 2',
+        ]);
+        const config = parser.parse({
+            API_TOKEN: 'secret',
+            REGION: 'ap-northeast-1',
+            BUCKET: 'my-bucket',
+            NAME: ' evp ',
+        });
+        expect(config).toEqual({
+            API_TOKEN: 'secret',
+            REGION: 'ap-northeast-1',
+            BUCKET: 'my-bucket',
+            NAME: 'evp',
+        });
+    });
+
+    test('refine', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            TLS_CERT: EVP.string().optional(),
+            TLS_KEY: EVP.string().secret().optional(),
+            pool: EVP.object({
+                MIN_POOL: EVP.number(),
+                MAX_POOL: EVP.number(),
+            }).refine((pool) => pool.MIN_POOL <= pool.MAX_POOL, {
+                fields: ['MIN_POOL', 'MAX_POOL'],
+                message: 'MIN_POOL must not exceed MAX_POOL',
+            }),
+        })
+            .refine(
+                (config) =>
+                    (config.TLS_CERT === undefined) ===
+                        (config.TLS_KEY === undefined) ||
+                    'TLS_CERT and TLS_KEY must be set together',
+                { fields: ['TLS_CERT', 'TLS_KEY'] },
+            )
+            .logger(logger);
+        expect(parser.parse({ MIN_POOL: '1', MAX_POOL: '10' })).toEqual({
+            TLS_CERT: undefined,
+            TLS_KEY: undefined,
+            pool: { MIN_POOL: 1, MAX_POOL: 10 },
+        });
+        logger.logs = [];
+        const result = parser.safeParse({
+            MIN_POOL: '10',
+            MAX_POOL: '1',
+        });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.message).toEqual(
+                'Unable to fill the following fields: pool',
+            );
+            expect(result.error.issues).toEqual([
+                {
+                    reason: 'invalid',
+                    envName: 'MIN_POOL',
+                    path: ['pool', 'MIN_POOL'],
+                    value: '10',
+                    message: 'MIN_POOL must not exceed MAX_POOL',
+                },
+                {
+                    reason: 'invalid',
+                    envName: 'MAX_POOL',
+                    path: ['pool', 'MAX_POOL'],
+                    value: '1',
+                    message: 'MIN_POOL must not exceed MAX_POOL',
+                },
+            ]);
+        }
+        expect(logger.logs).toEqual([
+            'TLS_CERT=undefined (default)',
+            'TLS_KEY=undefined (default)',
+            'MIN_POOL=10',
+            'MAX_POOL=1',
+            'MIN_POOL=10 ERROR: MIN_POOL must not exceed MAX_POOL',
+            'MAX_POOL=1 ERROR: MIN_POOL must not exceed MAX_POOL',
+        ]);
+        expect(parser.audit({ MIN_POOL: '10', MAX_POOL: '1' })).toMatchObject({
+            supplied: ['MIN_POOL', 'MAX_POOL'],
+            invalid: ['MIN_POOL', 'MAX_POOL'],
+        });
+        logger.logs = [];
+        const tls = parser.safeParse({
+            MIN_POOL: '1',
+            MAX_POOL: '10',
+            TLS_CERT: 'cert',
+        });
+        expect(tls.success).toBe(false);
+        expect(logger.logs).toContain(
+            'TLS_CERT=cert ERROR: TLS_CERT and TLS_KEY must be set together',
+        );
+        expect(logger.logs).toContain(
+            'TLS_KEY=undefined ERROR: TLS_CERT and TLS_KEY must be set together',
+        );
+    });
+
+    test('resolve secrets asynchronously', async () => {
+        const logger = new TestLogger();
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        writeFileSync(join(dir, 'db'), 'secret\n');
+        const parser = EVP.object({
+            DB_PASSWORD: EVP.string().secret().resolve(),
+            API_TOKEN: EVP.string().secret().optional().resolve(),
+            API_ENDPOINT: EVP.string(),
+            DATABASE_URL: EVP.string().default('file:./dev.db'),
+        })
+            .resolvers(
+                new EVP.FileSecretResolver(),
+                new EVP.MemorySecretResolver('vault', {
+                    'secret/data/app#token': 'token',
+                }),
+            )
+            .logger(logger);
+        const config = await parser.parseAsync({
+            DB_PASSWORD: `file:${join(dir, 'db')}`,
+            API_TOKEN: 'vault:secret/data/app#token',
+            API_ENDPOINT: 'https://example.com',
+            DATABASE_URL: 'file:./prod.db',
+            // variables that are not read by the parser are left alone
+            SQLITE_URL: 'file:/nonexistent/db.sqlite',
+        });
+        expect(config).toEqual({
+            DB_PASSWORD: 'secret',
+            API_TOKEN: 'token',
+            API_ENDPOINT: 'https://example.com',
+            DATABASE_URL: 'file:./prod.db',
+        });
+        expect(logger.logs).toEqual([
+            'DB_PASSWORD=<SHA256:2bb80d53>',
+            'API_TOKEN=<SHA256:3c469e9d>',
+            'API_ENDPOINT=https://example.com',
+            'DATABASE_URL=file:./prod.db',
+        ]);
+        const result = await parser.safeParseAsync({
+            DB_PASSWORD: 'vault:secret/data/app#password',
+            API_TOKEN: 'vault:secret/data/app#token',
+            API_ENDPOINT: 'https://example.com',
+        });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues).toEqual([
+                {
+                    reason: 'invalid',
+                    envName: 'DB_PASSWORD',
+                    path: ['DB_PASSWORD'],
+                    value: 'vault:secret/data/app#password',
+                    message:
+                        'unable to resolve the reference: unknown secret secret/data/app#password',
+                },
+            ]);
+        }
+        const nested = await EVP.object({
+            db: EVP.object({ PASSWORD: EVP.string().resolve() }),
+        })
+            .resolvers(new EVP.MemorySecretResolver('m', {}))
+            .logger(new TestLogger())
+            .safeParseAsync({ PASSWORD: 'm:x' });
+        expect(
+            nested.success
+                ? []
+                : nested.error.issues.map((issue) => issue.path),
+        ).toEqual([['db', 'PASSWORD']]);
+        expect(
+            await EVP.object({
+                TOKEN_LENGTH: EVP.string()
+                    .resolve()
+                    .map((token) => token.length),
+            })
+                .resolvers(new EVP.MemorySecretResolver('m', { x: 'token' }))
+                .logger(new TestLogger())
+                .parseAsync({ TOKEN_LENGTH: 'm:x' }),
+        ).toEqual({ TOKEN_LENGTH: 5 });
+    });
+
+    test('watch', async () => {
+        const logger = new TestLogger();
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        writeFileSync(join(dir, 'password'), 'secret\n');
+        const env: Record<string, string> = {
+            DB_PASSWORD_FILE: join(dir, 'password'),
+            DB_HOST: 'localhost',
+            HTTP_PORT: '8080',
+        };
+        const watcher = EVP.object({
+            DB_PASSWORD: EVP.string().secret().fromFile(),
+            DB_HOST: EVP.string(),
+            HTTP_PORT: EVP.port().reloadable(false),
+        })
+            .verbosity('warn')
+            .logger(logger)
+            .watch({ input: () => env, debounce: 10 });
+        const events: EVP.ChangeEvent<typeof watcher.current>[] = [];
+        const errors: EVP.EVPError[] = [];
+        watcher.onChange((event) => events.push(event));
+        watcher.onError((error) => errors.push(error));
+        expect(watcher.current).toEqual({
+            DB_PASSWORD: 'secret',
+            DB_HOST: 'localhost',
+            HTTP_PORT: 8080,
+        });
+
+        env.DB_HOST = '127.0.0.1';
+        env.HTTP_PORT = '8081';
+        watcher.reload();
+        expect(events).toEqual([
+            {
+                previous: {
+                    DB_PASSWORD: 'secret',
+                    DB_HOST: 'localhost',
+                    HTTP_PORT: 8080,
+                },
+                next: {
+                    DB_PASSWORD: 'secret',
+                    DB_HOST: '127.0.0.1',
+                    HTTP_PORT: 8080,
+                },
+                changedKeys: ['DB_HOST'],
+                restartRequired: ['HTTP_PORT'],
+            },
+        ]);
+        expect(logger.logs).toEqual([
+            'HTTP_PORT has changed, but it takes effect after a restart',
+        ]);
+
+        // keep the last good configuration
+        env.HTTP_PORT = 'http';
+        expect(watcher.reload().success).toBe(false);
+        expect(errors).toHaveLength(1);
+        expect(watcher.current.DB_HOST).toEqual('127.0.0.1');
+        env.HTTP_PORT = '8080';
+
+        // reload when the file changes
+        events.length = 0;
+        const changed = new Promise((resolve) => watcher.onChange(resolve));
+        writeFileSync(join(dir, 'password'), 'rotated\n');
+        await changed;
+        expect(events[0].changedKeys).toEqual(['DB_PASSWORD']);
+        expect(watcher.current.DB_PASSWORD).toEqual('rotated');
+        watcher.close();
+    });
+
+    test('watch fixed fields', () => {
+        const logger = new TestLogger();
+        expect(() =>
+            EVP.object({
+                db: EVP.object({ DB_HOST: EVP.string().reloadable(false) }),
+            })
+                .logger(logger)
+                .watch({ input: () => ({ DB_HOST: 'localhost' }) }),
+        ).toThrow(
+            'DB_HOST: .reloadable(false) is only supported for top-level fields',
+        );
+
+        const env: Record<string, string> = {
+            DB_HOST: 'localhost',
+            OLD_PORT: '8080',
+        };
+        const watcher = EVP.object({
+            db: EVP.object({ DB_HOST: EVP.string() }).reloadable(false),
+            HTTP_PORT: EVP.port().alias('OLD_PORT').reloadable(false),
+        })
+            .verbosity('warn')
+            .logger(logger)
+            .watch({ input: () => env });
+        env.DB_HOST = '127.0.0.1';
+        env.OLD_PORT = '8081';
+        logger.logs = [];
+        watcher.reload();
+        expect(watcher.current).toEqual({
+            db: { DB_HOST: 'localhost' },
+            HTTP_PORT: 8080,
+        });
+        expect(logger.logs).toEqual([
+            'OLD_PORT is deprecated: use HTTP_PORT instead',
+            'db has changed, but it takes effect after a restart',
+            'OLD_PORT has changed, but it takes effect after a restart',
+        ]);
+        watcher.close();
+    });
+
+    test('watch malformed input', () => {
+        const logger = new TestLogger();
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        writeFileSync(join(dir, '.env'), 'HOST=localhost\n');
+        const watcher = EVP.object({ HOST: EVP.string() })
+            .logger(logger)
+            .watch({
+                input: () => EVP.loadEnv({ dir, env: {} }),
+                files: [join(dir, '.env')],
+            });
+        const errors: EVP.EVPError[] = [];
+        watcher.onError((error) => errors.push(error));
+
+        // a dotenv file that is being written
+        writeFileSync(join(dir, '.env'), 'HOST="unterminated');
+        const result = watcher.reload();
+        expect(result.success).toBe(false);
+        expect(errors).toHaveLength(1);
+        expect(errors[0]).toBeInstanceOf(EVP.EVPError);
+        expect(errors[0].message).toContain('unterminated');
+        expect(watcher.current).toEqual({ HOST: 'localhost' });
+
+        // a throwing listener does not stop the watcher
+        watcher.onChange(() => {
+            throw new Error('oops');
+        });
+        writeFileSync(join(dir, '.env'), 'HOST=127.0.0.1\n');
+        logger.logs = [];
+        expect(watcher.reload().success).toBe(true);
+        expect(watcher.current).toEqual({ HOST: '127.0.0.1' });
+        expect(logger.logs).toContain(
+            'a listener of the watcher threw an error: oops',
+        );
+        watcher.close();
+    });
+
+    test('serialize', () => {
+        const env = {
+            API_ENDPOINT: 'https://example.com',
+            API_TOKEN: 'secret',
+            HTTP_PORT: '8080',
+            DATA_SOURCE: 'mysql',
+            MYSQL_HOST: 'db.example.com',
+            MYSQL_DATABASE: 'app',
+            MODE: 'production',
+        };
+        const config = parser.logger(new TestLogger()).parse(env);
+        expect(parser.serialize(config)).toEqual({
+            ...env,
+            DEBUG_MODE: 'false',
+            MYSQL_PORT: '3306',
+        });
+        expect(parser.serialize(config, { redactSecrets: true })).toEqual({
+            ...env,
+            API_TOKEN: '<SHA256:2bb80d53>',
+            DEBUG_MODE: 'false',
+            MYSQL_PORT: '3306',
+        });
+
+        const other = EVP.object({
+            TIMEOUT: EVP.duration(),
+            PORTS: EVP.array(EVP.port()),
+            LEVEL: EVP.number().map(
+                (n) => ({ level: n }),
+                ({ level }) => level,
+            ),
+            upstreams: EVP.indexed(
+                'UPSTREAM_',
+                EVP.object({ HOST: EVP.string() }),
+            ),
+            STORAGE: EVP.union({
+                memory: EVP.object({}),
+                file: EVP.object({ STORAGE_PATH: EVP.string() }),
+            }),
+            db: EVP.object({
+                PASSWORD: EVP.string().wrapSecret(),
+            })
+                .prefix('DB_')
+                .redact(new EVP.MaskRedactor()),
+        }).logger(new TestLogger());
+        const otherEnv = {
+            TIMEOUT: '1m30s',
+            PORTS: '80,443',
+            LEVEL: '3',
+            UPSTREAM_0_HOST: 'a.example.com',
+            UPSTREAM_1_HOST: 'b.example.com',
+            STORAGE: 'file',
+            STORAGE_PATH: '/var/lib/app',
+            DB_PASSWORD: 'secret',
+        };
+        const otherConfig = other.parse(otherEnv);
+        expect(other.serialize(otherConfig)).toEqual(otherEnv);
+        expect(other.parse(other.serialize(otherConfig))).toEqual(otherConfig);
+        expect(
+            other.serialize(otherConfig, { redactSecrets: true }).DB_PASSWORD,
+        ).toEqual('<redacted>');
+        expect(
+            EVP.stringifyDotenv(
+                EVP.object({ NAME: EVP.string() }).serialize({
+                    NAME: 'hello world',
+                }),
+            ),
+        ).toEqual('NAME="hello world"\n');
+        expect(() =>
+            other.serialize({
+                ...otherConfig,
+                STORAGE: { STORAGE_DIR: '/tmp' } as never,
+            }),
+        ).toThrow('STORAGE: the value does not match any option');
+        expect(() =>
+            EVP.object({
+                L: EVP.string().map((s) => ({ s })),
+            }).serialize({ L: { s: 'x' } }),
+        ).toThrow(
+            'L: the value cannot be serialized without the inverse function of .map()',
+        );
+        expect(() =>
+            EVP.object({
+                L: EVP.number()
+                    .map((n) => n * 2)
+                    .wrapSecret(),
+            }).serialize({ L: new EVP.Secret(2) }),
+        ).toThrow('L: the value cannot be serialized');
+    });
+
+    test('sample', () => {
+        expect(parser.sample()).toEqual({
+            API_ENDPOINT: '<string>',
+            API_TOKEN: '<string>',
+            HTTP_PORT: '0',
+            DEBUG_MODE: 'false',
+            MYSQL_HOST: 'localhost',
+            MYSQL_PORT: '3306',
+            DATA_SOURCE: 'dummy',
+            MODE: 'development',
+        });
+        const samples = parser.sampleAllBranches();
+        expect(samples.map((sample) => sample.DATA_SOURCE)).toEqual([
+            'dummy',
+            'file',
+            'mysql',
+        ]);
+        for (const sample of samples) {
+            expect(() =>
+                parser.logger(new TestLogger()).parse(sample),
+            ).not.toThrow();
+        }
+
+        const other = EVP.object({
+            WORKERS: EVP.number().int().positive(),
+            RATIO: EVP.number().min(0.5).max(1),
+            NAME: EVP.string().minLength(10),
+            CODE: EVP.string().maxLength(3),
+            ENDPOINT: EVP.url().protocols('http'),
+            PORT: EVP.port(),
+            TIMEOUT: EVP.duration(),
+            MEMORY_LIMIT: EVP.bytes(),
+            PORTS: EVP.array(EVP.port()).minLength(2),
+            TOKEN: EVP.string().wrapSecret(),
+            LEVEL: EVP.number().map((n) => ({ level: n })),
+            upstreams: EVP.indexed(
+                'UPSTREAM_',
+                EVP.object({ HOST: EVP.string().metavar('<host>') }),
+            ),
+            STORAGE: EVP.union({
+                memory: EVP.object({}),
+                file: EVP.object({ STORAGE_PATH: EVP.string() }),
+            }),
+        }).logger(new TestLogger());
+        const sample = other.sample();
+        expect(sample).toEqual({
+            WORKERS: '1',
+            RATIO: '0.5',
+            NAME: '<string>xx',
+            CODE: '<st',
+            ENDPOINT: 'http://example.com',
+            PORT: '8080',
+            TIMEOUT: '30s',
+            MEMORY_LIMIT: '1MiB',
+            PORTS: '8080,8080',
+            TOKEN: '<string>',
+            LEVEL: '0',
+            UPSTREAM_0_HOST: '<host>',
+            STORAGE: 'memory',
+        });
+        expect(() => other.parse(sample)).not.toThrow();
+        expect(other.sampleAllBranches()).toEqual([
+            sample,
+            { ...sample, STORAGE: 'file', STORAGE_PATH: '<string>' },
+        ]);
+    });
+
+    test('standard schema', () => {
+        type RetryPolicy = { retries: number };
+        const retryPolicy: EVP.StandardSchemaV1<unknown, RetryPolicy> = {
+            '~standard': {
+                version: 1,
+                vendor: 'test',
+                validate: (value) =>
+                    typeof (value as RetryPolicy).retries === 'number'
+                        ? { value: value as RetryPolicy }
+                        : {
+                              issues: [
+                                  {
+                                      message: 'expected a number',
+                                      path: [{ key: 'retries' }],
+                                  },
+                              ],
+                          },
+            },
+        };
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            RETRY_POLICY: EVP.schema(retryPolicy).json(),
+        }).logger(logger);
+        expect(parser.parse({ RETRY_POLICY: '{"retries":3}' })).toEqual({
+            RETRY_POLICY: { retries: 3 },
+        });
+        expect(logger.logs).toEqual(['RETRY_POLICY={"retries":3}']);
+        expect(parser.describe()).toEqual('RETRY_POLICY=<json>');
+        const anything: EVP.StandardSchemaV1 = {
+            '~standard': {
+                version: 1,
+                vendor: 'test',
+                validate: (value) => ({ value }),
+            },
+        };
+        const sampled = EVP.object({
+            A: EVP.schema(anything).json(),
+        }).logger(new TestLogger());
+        expect(sampled.sample()).toEqual({ A: 'null' });
+        expect(sampled.safeParse(sampled.sample()).success).toBe(true);
+        const invalid = parser.safeParse({ RETRY_POLICY: '{"retries":"3"}' });
+        expect(!invalid.success && invalid.error.issues).toEqual([
+            {
+                reason: 'invalid',
+                envName: 'RETRY_POLICY',
+                path: ['RETRY_POLICY'],
+                value: '{"retries":"3"}',
+                message: 'retries: expected a number',
+            },
+        ]);
+        const malformed = parser.safeParse({ RETRY_POLICY: 'retries=3' });
+        expect(!malformed.success && malformed.error.issues[0].message).toEqual(
+            'invalid JSON: unexpected character at line 1, column 1',
+        );
+
+        // ObjectParser as a Standard Schema
+        const validate = parser['~standard'].validate;
+        expect(validate({ RETRY_POLICY: '{"retries":3}' })).toEqual({
+            value: { RETRY_POLICY: { retries: 3 } },
+        });
+        expect(validate({})).toEqual({
+            issues: [
+                {
+                    message: 'missing environment variable',
+                    path: ['RETRY_POLICY'],
+                },
+            ],
+        });
+        expect(validate('RETRY_POLICY')).toEqual({
+            issues: [
+                {
+                    message: 'expected a record of environment variables',
+                    path: [],
+                },
+            ],
+        });
+        const strings = EVP.object({
+            A: EVP.string(),
+            B: EVP.string().secret(),
+        }).logger(new TestLogger())['~standard'].validate;
+        expect(strings({ A: 1, B: 'b' })).toEqual({
+            issues: [{ message: 'expected a string', path: ['A'] }],
+        });
+        expect(strings({ A: 'a', B: 2 })).toEqual({
+            issues: [{ message: 'expected a string', path: ['B'] }],
+        });
+        expect(
+            strings([{ values: { A: 'a' } }, { values: { B: true } }]),
+        ).toEqual({
+            issues: [
+                { message: 'expected a string', path: [1, 'values', 'B'] },
+            ],
+        });
+        expect(strings([{ values: { A: 'a', B: undefined } }, 'B'])).toEqual({
+            issues: [{ message: 'expected a source', path: [1] }],
+        });
+        const config: EVP.StandardSchemaV1.InferOutput<typeof parser> = {
+            RETRY_POLICY: { retries: 3 },
+        };
+        expect(config).toEqual(parser.parse({ RETRY_POLICY: '{"retries":3}' }));
+    });
+
+    test('json', () => {
+        const logger = new TestLogger();
+        const parser = EVP.object({
+            FEATURE_FLAGS: EVP.json<Record<string, boolean>>().default({}),
+            RETRY_DELAYS: EVP.json((value) => {
+                if (!Array.isArray(value)) {
+                    throw new Error('it must be an array');
+                }
+                return value as number[];
+            }),
+            CREDENTIALS: EVP.json().secret(),
+        }).logger(logger);
+        expect(parser.describe()).toEqual(
+            'FEATURE_FLAGS={}\nRETRY_DELAYS=<json>\nCREDENTIALS=<json>',
+        );
+        expect(
+            parser.parse({
+                RETRY_DELAYS: '[100, 200]',
+                CREDENTIALS: '{"user":"admin"}',
+            }),
+        ).toEqual({
+            FEATURE_FLAGS: {},
+            RETRY_DELAYS: [100, 200],
+            CREDENTIALS: { user: 'admin' },
+        });
+        expect(logger.logs).toEqual([
+            'FEATURE_FLAGS={} (default)',
+            'RETRY_DELAYS=[100,200]',
+            'CREDENTIALS=<SHA256:43bc684a>',
+        ]);
+
+        const result = parser.safeParse({
+            RETRY_DELAYS: '{"delay":100}',
+            CREDENTIALS: '{"user":"admin",}',
+        });
+        expect(!result.success && result.error.issues).toEqual([
+            {
+                reason: 'invalid',
+                envName: 'RETRY_DELAYS',
+                path: ['RETRY_DELAYS'],
+                value: '{"delay":100}',
+                message: 'it must be an array',
+            },
+            {
+                reason: 'invalid',
+                envName: 'CREDENTIALS',
+                path: ['CREDENTIALS'],
+                value: '<SHA256:c79c9918>',
+                message:
+                    'invalid JSON: expected a string key at line 1, column 17',
+            },
+        ]);
+    });
+
+    test('read variables from files', () => {
+        const logger = new TestLogger();
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        writeFileSync(join(dir, 'password'), 'secret\n');
+        const parser = EVP.object({
+            POSTGRES_PASSWORD: EVP.string().secret().fromFile(),
+            POSTGRES_USER: EVP.string().fromFile(),
+            POSTGRES_DB: EVP.string().fromFile().optional(),
+        })
+            .assumePrefix('POSTGRES_')
+            .rejectUnused()
+            .logger(logger);
+        const config = parser.parse({
+            POSTGRES_PASSWORD_FILE: join(dir, 'password'),
+            POSTGRES_USER: 'postgres',
+            POSTGRES_DB_FILE: join(dir, 'password'),
+        });
+        expect(config).toEqual({
+            POSTGRES_PASSWORD: 'secret',
+            POSTGRES_USER: 'postgres',
+            POSTGRES_DB: 'secret',
+        });
+        expect(logger.logs).toEqual([
+            `POSTGRES_PASSWORD=<SHA256:2bb80d53> (from ${join(dir, 'password')})`,
+            'POSTGRES_USER=postgres',
+            `POSTGRES_DB=secret (from ${join(dir, 'password')})`,
+        ]);
+        const result = parser.safeParse({
+            POSTGRES_PASSWORD_FILE: join(dir, 'missing'),
+            POSTGRES_USER: 'postgres',
+        });
+        expect(result.success).toBe(false);
+        if (!result.success) {
+            expect(result.error.issues).toMatchObject([
+                {
+                    reason: 'invalid',
+                    envName: 'POSTGRES_PASSWORD_FILE',
+                    path: ['POSTGRES_PASSWORD'],
+                    value: join(dir, 'missing'),
+                },
+            ]);
+        }
+        writeFileSync(join(dir, 'workers'), '4\n');
+        expect(
+            EVP.object({
+                WORKERS: EVP.string().fromFile().map(Number),
+            })
+                .logger(new TestLogger())
+                .parse({ WORKERS_FILE: join(dir, 'workers') }),
+        ).toEqual({ WORKERS: 4 });
+    });
+
+    test('layered sources', () => {
+        const logger = new TestLogger();
+        const dir = mkdtempSync(join(tmpdir(), 'evp-'));
+        writeFileSync(join(dir, '.env'), 'HOST=localhost\nPORT=3000\n');
+        writeFileSync(join(dir, '.env.local'), 'PORT=8080\n');
+        const parser = EVP.object({
+            HOST: EVP.string(),
+            PORT: EVP.number(),
+            DEBUG_MODE: EVP.boolean(),
+        }).logger(logger);
+        const config = parser.parse(
+            EVP.loadEnv({ dir, env: { DEBUG_MODE: 'true' } }),
+        );
+        expect(config).toEqual({
+            HOST: 'localhost',
+            PORT: 8080,
+            DEBUG_MODE: true,
+        });
+        expect(logger.logs).toEqual([
+            'HOST=localhost (from .env)',
+            'PORT=8080 (from .env.local)',
+            'DEBUG_MODE=true',
+        ]);
+    });
+
+    test('JSON Schema', () => {
+        expect(parser.toJSONSchema()).toMatchSnapshot();
+        expect(
+            EVP.object({
+                upstreams: EVP.indexed(
+                    'UPSTREAM_',
+                    EVP.object({
+                        HOST: EVP.string().description('host name'),
+                        TIMEOUT: EVP.duration().default(30 * 1000),
+                    }),
+                ),
+                NAME: EVP.string()
+                    .nonEmpty()
+                    .regex(/^[a-z]+$/),
+            })
+                .description('upstream servers')
+                .toJSONSchema(),
+        ).toMatchSnapshot();
+        expect(
+            EVP.object({
+                API_KEY: EVP.string().secret().default('dev-key'),
+            }).toJSONSchema().properties,
+        ).toEqual({ API_KEY: { type: 'string', writeOnly: true } });
+    });
+
+    test('document', () => {
+        expect(parser.document()).toMatchSnapshot();
+        expect(
+            EVP.object({
+                upstreams: EVP.indexed(
+                    'UPSTREAM_',
+                    EVP.object({
+                        HOST: EVP.string().description('host name'),
+                        TIMEOUT: EVP.duration().default(30 * 1000),
+                    }),
+                ),
+            }).document({
+                format: (entries) =>
+                    entries
+                        .map((entry) => `${entry.name}=${entry.metavar}`)
+                        .join('\n'),
+            }),
+        ).toEqual(
+            'UPSTREAM_<n>_HOST=<string>\nUPSTREAM_<n>_TIMEOUT=<duration>',
+        );
+        expect(
+            EVP.object({
+                API_KEY: EVP.string().secret().default('dev-key'),
+            }).document(),
+        ).not.toContain('dev-key');
+    });
 });
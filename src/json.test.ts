@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'vitest';
+import { parseJson } from './json';
+
+describe('parseJson', () => {
+    test('parse values', () => {
+        expect(
+            parseJson('{"a":true,"b":[1,-2.5e3,null],"c":"\\u0041"}'),
+        ).toEqual({ a: true, b: [1, -2500, null], c: 'A' });
+    });
+
+    test('report the position of syntax errors', () => {
+        const cases: [string, string][] = [
+            ['', 'unexpected end of input at line 1, column 1'],
+            ['{"a":1,}', 'expected a string key at line 1, column 8'],
+            ['{"a" 1}', "expected ':' at line 1, column 6"],
+            ['[1 2]', "expected ',' or ']' at line 1, column 4"],
+            ['{\n  "a": tru\n}', 'unexpected character at line 2, column 8'],
+            ['"secret', 'unterminated string at line 1, column 1'],
+            ['"\\x"', 'invalid escape sequence at line 1, column 2'],
+            ['01', 'unexpected character after the value at line 1, column 2'],
+            ['[1,', 'unexpected end of input at line 1, column 4'],
+        ];
+        for (const [text, message] of cases) {
+            expect(() => parseJson(text)).toThrow(`invalid JSON: ${message}`);
+        }
+    });
+});
@@ -0,0 +1,179 @@
+class JsonSyntaxError extends Error {
+    public constructor(
+        message: string,
+        public position: number,
+    ) {
+        super(message);
+    }
+}
+
+/** a scanner that only locates syntax errors, as the messages of SyntaxError vary by runtime and may contain the text */
+class JsonScanner {
+    private position: number = 0;
+    public constructor(private text: string) {}
+    public scan(): void {
+        this.value();
+        this.whitespace();
+        if (this.position < this.text.length) {
+            this.fail('unexpected character after the value');
+        }
+    }
+    private fail(message: string): never {
+        if (this.position >= this.text.length) {
+            throw new JsonSyntaxError(
+                'unexpected end of input',
+                this.text.length,
+            );
+        }
+        throw new JsonSyntaxError(message, this.position);
+    }
+    private whitespace(): void {
+        while (/[ \t\n\r]/.test(this.text.charAt(this.position))) {
+            this.position++;
+        }
+    }
+    private expect(char: string): void {
+        this.whitespace();
+        if (this.text.charAt(this.position) !== char) {
+            this.fail(`expected '${char}'`);
+        }
+        this.position++;
+    }
+    private value(): void {
+        this.whitespace();
+        const char = this.text.charAt(this.position);
+        if (char === '{') {
+            this.object();
+        } else if (char === '[') {
+            this.array();
+        } else if (char === '"') {
+            this.string();
+        } else if (char === '-' || (char >= '0' && char <= '9')) {
+            this.number();
+        } else if (!this.literal()) {
+            this.fail('unexpected character');
+        }
+    }
+    private literal(): boolean {
+        for (const literal of ['true', 'false', 'null']) {
+            if (this.text.startsWith(literal, this.position)) {
+                this.position += literal.length;
+                return true;
+            }
+        }
+        return false;
+    }
+    private object(): void {
+        this.position++;
+        this.whitespace();
+        if (this.text.charAt(this.position) === '}') {
+            this.position++;
+            return;
+        }
+        for (;;) {
+            this.whitespace();
+            if (this.text.charAt(this.position) !== '"') {
+                this.fail('expected a string key');
+            }
+            this.string();
+            this.expect(':');
+            this.value();
+            this.whitespace();
+            const char = this.text.charAt(this.position);
+            if (char === '}') {
+                this.position++;
+                return;
+            }
+            if (char !== ',') {
+                this.fail(`expected ',' or '}'`);
+            }
+            this.position++;
+        }
+    }
+    private array(): void {
+        this.position++;
+        this.whitespace();
+        if (this.text.charAt(this.position) === ']') {
+            this.position++;
+            return;
+        }
+        for (;;) {
+            this.value();
+            this.whitespace();
+            const char = this.text.charAt(this.position);
+            if (char === ']') {
+                this.position++;
+                return;
+            }
+            if (char !== ',') {
+                this.fail(`expected ',' or ']'`);
+            }
+            this.position++;
+        }
+    }
+    private string(): void {
+        const start = this.position;
+        this.position++;
+        for (;;) {
+            if (this.position >= this.text.length) {
+                throw new JsonSyntaxError('unterminated string', start);
+            }
+            const char = this.text.charAt(this.position);
+            if (char === '"') {
+                this.position++;
+                return;
+            }
+            if (char < ' ') {
+                this.fail('control character in a string');
+            }
+            if (char === '\\') {
+                const escape = /^\\(["\\/bfnrt]|u[0-9a-fA-F]{4})/.exec(
+                    this.text.slice(this.position, this.position + 6),
+                );
+                if (escape === null) {
+                    this.fail('invalid escape sequence');
+                }
+                this.position += escape[0].length;
+            } else {
+                this.position++;
+            }
+        }
+    }
+    private number(): void {
+        const match = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/.exec(
+            this.text.slice(this.position),
+        );
+        if (match === null) {
+            this.fail('invalid number');
+        }
+        this.position += match[0].length;
+    }
+}
+
+/** the line and column (1-based) of the position */
+function location(text: string, position: number): string {
+    const lines = text.slice(0, position).split('\n');
+    return `line ${lines.length}, column ${lines[lines.length - 1].length + 1}`;
+}
+
+/**
+ * parse the text as JSON.
+ * @throws Error with the position of the syntax error, without the text itself
+ */
+export function parseJson(text: string): unknown {
+    try {
+        return JSON.parse(text);
+    } catch {
+        try {
+            new JsonScanner(text).scan();
+        } catch (error) {
+            if (error instanceof JsonSyntaxError) {
+                throw new Error(
+                    `invalid JSON: ${error.message} at ${location(text, error.position)}`,
+                );
+            }
+            throw error;
+        }
+        throw new Error('invalid JSON');
+    }
+}
@@ -21,6 +21,19 @@ describe('Logger', () => {
         });
     });
 
+    describe('warn', () => {
+        it('should log warnings correctly', () => {
+            const consoleSpy = vi
+                .spyOn(console, 'warn')
+                .mockImplementation(() => {});
+
+            logger.warn?.(`KEY is unused`);
+
+            expect(consoleSpy).toMatchSnapshot();
+            consoleSpy.mockRestore();
+        });
+    });
+
     describe('error', () => {
         it('should log errors correctly', () => {
             const consoleSpy = vi
@@ -1,8 +1,36 @@
 import pc from 'picocolors';
 
+export type LogEventKind =
+    | 'parsed'
+    | 'default'
+    | 'missing'
+    | 'invalid'
+    | 'unused'
+    | 'deprecated'
+    | 'restart';
+
+/** LogEvent describes the outcome of reading a variable */
+export type LogEvent = {
+    kind: LogEventKind;
+    envName: string;
+    /** the value as displayed in the log; secrets are redacted */
+    displayValue?: string;
+    isSecret: boolean;
+    /** where the value came from, if not the environment itself */
+    source?: string;
+    /** the reason of the failure for `missing` and `invalid`, or the deprecation message */
+    message?: string;
+};
+
 export interface ILogger {
     info(message: string) : void;
     error(message: string): void;
+    /** falls back to `info()` if not implemented */
+    warn?(message: string): void;
+    /** falls back to `info()` if not implemented */
+    debug?(message: string): void;
+    /** if implemented, receives the events instead of the formatted messages */
+    event?(event: LogEvent): void;
 }
 
 export class ConsoleLogger implements ILogger {
@@ -16,8 +44,135 @@ export class ConsoleLogger implements ILogger {
     ): void {
         console.error(`${process.stderr.isTTY ? pc.red('[EVP]') : '[EVP]'} ${message}`);
     }
+    public warn(message: string): void {
+        console.warn(
+            `${process.stderr.isTTY ? pc.yellow('[EVP]') : '[EVP]'} ${message}`,
+        );
+    }
+    public debug(message: string): void {
+        console.debug(
+            `${process.stdout.isTTY ? pc.gray('[EVP]') : '[EVP]'} ${message}`,
+        );
+    }
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+const levels: LogLevel[] = ['debug', 'info', 'warn', 'error', 'silent'];
+
+/** the level at which the event is logged */
+export function eventLevel(kind: LogEventKind): LogLevel {
+    switch (kind) {
+        case 'parsed':
+        case 'default':
+            return 'info';
+        case 'unused':
+        case 'deprecated':
+        case 'restart':
+            return 'warn';
+        case 'missing':
+        case 'invalid':
+            return 'error';
+    }
+}
+
+export function logWarn(logger: ILogger, message: string): void {
+    if (logger.warn !== undefined) {
+        logger.warn(message);
+    } else {
+        logger.info(message);
+    }
+}
+
+export function logDebug(logger: ILogger, message: string): void {
+    if (logger.debug !== undefined) {
+        logger.debug(message);
+    } else {
+        logger.info(message);
+    }
+}
+
+/** a logger that discards the messages and events below the verbosity */
+export function filterLogger(logger: ILogger, verbosity: LogLevel): ILogger {
+    const enabled = (level: LogLevel) =>
+        levels.indexOf(level) >= levels.indexOf(verbosity);
+    const event = logger.event?.bind(logger);
+    return {
+        info: (message) => {
+            if (enabled('info')) {
+                logger.info(message);
+            }
+        },
+        error: (message) => {
+            if (enabled('error')) {
+                logger.error(message);
+            }
+        },
+        warn: (message) => {
+            if (enabled('warn')) {
+                logWarn(logger, message);
+            }
+        },
+        debug: (message) => {
+            if (enabled('debug')) {
+                logDebug(logger, message);
+            }
+        },
+        event:
+            event === undefined
+                ? undefined
+                : (e) => {
+                      if (enabled(eventLevel(e.kind))) {
+                          event(e);
+                      }
+                  },
+    };
+}
+
+/** format the event as a message for `info()` or `error()` */
+export function formatEvent(event: LogEvent): string {
+    const source = event.source === undefined ? '' : ` (from ${event.source})`;
+    switch (event.kind) {
+        case 'parsed':
+            return `${event.envName}=${event.displayValue}${source}`;
+        case 'default':
+            return `${event.envName}=${event.displayValue} (default)`;
+        case 'missing':
+        case 'invalid':
+            return `${event.envName}=${event.displayValue} ERROR: ${event.message}`;
+        case 'unused':
+            return `${event.envName} is unused`;
+        case 'deprecated':
+            return `${event.envName} is deprecated: ${event.message}`;
+        case 'restart':
+            return `${event.envName} has changed, but it takes effect after a restart`;
+    }
+}
+
+/** pass the event to `logger.event()` if available, otherwise log the formatted message */
+export function logEvent(logger: ILogger, event: LogEvent): void {
+    if (logger.event !== undefined) {
+        logger.event(event);
+        return;
+    }
+    switch (eventLevel(event.kind)) {
+        case 'error':
+            logger.error(formatEvent(event));
+            break;
+        case 'warn':
+            logWarn(logger, formatEvent(event));
+            break;
+        default:
+            logger.info(formatEvent(event));
+    }
 }
 
-export function logMissingVariable(logger: ILogger, key: string): void {
-    logger.error(`${key}=undefined ERROR: missing environment variable`);
+export function missingEvent(envName: string): LogEvent {
+    return {
+        kind: 'missing',
+        envName,
+        displayValue: 'undefined',
+        isSecret: false,
+        message: 'missing environment variable',
+    };
 }
@@ -1,44 +1,156 @@
-import { createHash } from 'crypto';
-import { ILogger, ConsoleLogger, logMissingVariable } from './logger';
+import { readFileSync } from 'fs';
+import { AuditReport, emptyReport, record } from './audit';
+import { EVPError, Issue } from './error';
+import {
+    ILogger,
+    ConsoleLogger,
+    filterLogger,
+    LogEvent,
+    logEvent,
+    LogLevel,
+    missingEvent,
+} from './logger';
 import { fromOption, Option, toUndefined } from './option';
+import { resolveReferences, SecretResolver } from './resolver';
 import { ParseResult, ParseResults } from './result';
+import { Redactor, redactSecret, Sha256Redactor } from './redact';
+import { Secret } from './secret';
+import { StandardSchemaV1, validateStandardSchema } from './standard-schema';
+import { parseJson } from './json';
+import { ConfigWatcher, WatchOptions } from './watch';
+import { escapeRegExp, JSONSchema, mergeSchemas } from './schema';
+import { DocEntry, DocFormatter, MarkdownTableFormatter } from './docs';
 
 export type State = {
     value: string;
     used: boolean;
+    /** where the value came from, if not the environment itself */
+    source?: string;
+    /** the reason the reference in the value could not be resolved */
+    error?: string;
 };
 
+/** Source is a named set of variables, such as a dotenv file */
+export type Source = {
+    name?: string;
+    values: Record<string, string | undefined>;
+};
+
+/** the input of ObjectParser: a record of variables, or sources in ascending order of precedence */
+export type Input = Record<string, string | undefined> | Source[];
+
 export type Context<Env> = {
     values: Record<string, State>;
     logger: ILogger;
     envName: Env;
     envValue: string | undefined;
+    /** the prefix prepended to the names of the variables */
+    prefix: string;
+    /** the redactor applied to the secrets unless the variable specifies its own */
+    redactor: Redactor;
+    /** the report to record the outcome of each variable, if auditing */
+    report?: AuditReport;
+    /** the files read by the parser, if watching */
+    files?: string[];
+    /** the variables marked with `.resolve()` that are read by the parser, if collecting them */
+    references?: string[];
 };
 
 export type KnownEnvName = string;
 
 export interface Parser<Env, T> {
     envName?: Env;
+    aliases?: string[];
+    deprecation?: string;
+    isReloadable?: boolean;
+    fileSuffix?: string;
+    /** true if the parser reads a group of variables rather than a variable of its own */
+    isGroup?: boolean;
     parseContext(ctx: Context<Env>): ParseResult<T>;
-    describeVariable(envName: Env, prepend?: string): string;
+    describeVariable(envName: Env, prepend?: string, prefix?: string): string;
+    describeSchema(envName: Env, prefix?: string): JSONSchema;
+    describeEntries(envName: Env, prefix?: string, branch?: string): DocEntry[];
+    serializeVariable(
+        envName: Env,
+        value: T,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string>;
+    sampleVariable(
+        envName: Env,
+        prefix?: string,
+        allBranches?: boolean,
+    ): Record<string, string>[];
+    fixedVariables(envName: Env, prefix?: string): string[];
 }
 
+export type SerializeOptions = {
+    /** redact the values of the secrets as in logs */
+    redactSecrets?: boolean;
+};
+
 /** Variable<T> represents a single environment variable that can be parsed into a value of type T */
 export abstract class VariableLike<EnvName, T, Default = T>
     implements Parser<EnvName, T>
 {
     public envName?: EnvName;
+    public aliases: string[] = [];
+    public deprecation?: string;
     public isSecret: boolean = false;
+    public isReloadable: boolean = true;
+    public redactor?: Redactor;
     public defaultValue: Option<Default> = { tag: 'none' };
     public _description?: string;
     public forceMetavar?: string;
     abstract getMetavar(): string;
     abstract parseContext(ctx: Context<EnvName>): ParseResult<T>;
-    abstract describeVariable(envName: EnvName, prepend?: string): string;
+    abstract describeVariable(
+        envName: EnvName,
+        prepend?: string,
+        prefix?: string,
+    ): string;
+    /** JSON Schema of the variables read by the parser */
+    abstract describeSchema(envName: EnvName, prefix?: string): JSONSchema;
+    /** documentation entries of the variables read by the parser */
+    abstract describeEntries(
+        envName: EnvName,
+        prefix?: string,
+        branch?: string,
+    ): DocEntry[];
+    /**
+     * convert the value back into the variables read by the parser
+     * @param redactor - redact the secrets with this redactor unless they specify their own
+     */
+    abstract serializeVariable(
+        envName: EnvName,
+        value: T,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string>;
+    /**
+     * sample values of the variables that the parser accepts.
+     * The first one uses the default or the first option of each union;
+     * if `allBranches` is true, the rest cover the other options.
+     */
+    abstract sampleVariable(
+        envName: EnvName,
+        prefix?: string,
+        allBranches?: boolean,
+    ): Record<string, string>[];
+    /** the variables read by the parser that are marked with `.reloadable(false)` */
+    public fixedVariables(envName: EnvName, prefix?: string): string[] {
+        return this.isReloadable === false && envName !== undefined
+            ? [String(envName)]
+            : [];
+    }
 
-    /** mark the variable as a secret, so its value will be redacted in logs */
-    public secret(): this {
+    /**
+     * mark the variable as a secret, so its value will be redacted in logs.
+     * @param redactor - how to redact the value (default: the redactor of the parser, see `ObjectParser.redact()`)
+     */
+    public secret(redactor?: Redactor): this {
         this.isSecret = true;
+        this.redactor = redactor;
         return this;
     }
     /** set a default value for the variable */
@@ -63,30 +175,245 @@ export abstract class VariableLike<EnvName, T, Default = T>
         this.envName = name;
         return this;
     }
+
+    /**
+     * also read the variable from other names, such as the old name of a renamed variable.
+     * A warning is logged when an alias is used.
+     */
+    public alias(...names: string[]): this {
+        this.aliases = [...this.aliases, ...names];
+        return this;
+    }
+
+    /** mark the variable as deprecated, so a warning is logged when it is set */
+    public deprecated(message: string): this {
+        this.deprecation = message;
+        return this;
+    }
+
+    /**
+     * whether `ObjectParser.watch()` may change the value without a restart.
+     * If false, the value is kept after reloading, with a warning.
+     */
+    public reloadable(reloadable: boolean = true): this {
+        this.isReloadable = reloadable;
+        return this;
+    }
+}
+
+/** log the event and record it to the report */
+function emit(ctx: Context<unknown>, event: LogEvent): void {
+    logEvent(ctx.logger, event);
+    if (ctx.report !== undefined) {
+        record(ctx.report, event);
+    }
+}
+
+/**
+ * find the name under which the variable is set, among its name and aliases,
+ * logging a warning if it is an alias or deprecated
+ */
+function resolveName(
+    ctx: Context<unknown>,
+    parser: Parser<KnownEnvName, unknown>,
+    envName: string,
+    prefix: string,
+): ParseResult<string> {
+    const candidates = [
+        envName,
+        ...(parser.aliases ?? []).map((alias) => prefix + alias),
+    ];
+    const names = candidates.filter((name) => ctx.values[name] !== undefined);
+    if (names.length === 0) {
+        // read the file of the variable or an alias, e.g. DB_PASSWORD_FILE
+        const fileSuffix = parser.fileSuffix;
+        const name =
+            fileSuffix === undefined
+                ? undefined
+                : candidates.find(
+                      (name) => ctx.values[name + fileSuffix] !== undefined,
+                  );
+        if (name === undefined) {
+            return { success: true, data: envName };
+        }
+        warnDeprecated(ctx, parser, envName, name);
+        return { success: true, data: name };
+    }
+    for (const name of names) {
+        ctx.values[name].used = true;
+    }
+    const [name, ...others] = names;
+    const value = ctx.values[name].value;
+    const conflict = others.find((other) => ctx.values[other].value !== value);
+    if (conflict !== undefined) {
+        const redactor = secretRedactor(parser, ctx);
+        const displayValue =
+            redactor === undefined ? value : redactSecret(redactor, value);
+        const message = `${conflict} is also set to a different value`;
+        emit(ctx, {
+            kind: 'invalid',
+            envName: name,
+            displayValue,
+            isSecret: redactor !== undefined,
+            message,
+        });
+        return ParseResult.invalidVariable(name, displayValue, message);
+    }
+    warnDeprecated(ctx, parser, envName, name);
+    return { success: true, data: name };
+}
+
+/** log a warning if the variable is read from an alias or deprecated */
+function warnDeprecated(
+    ctx: Context<unknown>,
+    parser: Parser<KnownEnvName, unknown>,
+    envName: string,
+    name: string,
+): void {
+    if (name !== envName || parser.deprecation !== undefined) {
+        emit(ctx, {
+            kind: 'deprecated',
+            envName: name,
+            isSecret: false,
+            message: parser.deprecation ?? `use ${envName} instead`,
+        });
+    }
+}
+
+/**
+ * combine the samples of the fields: the first one consists of the first samples of all fields,
+ * followed by one for each of the other samples of each field
+ */
+function combineSamples(
+    samples: Record<string, string>[][],
+): Record<string, string>[] {
+    const base = samples.map((alternatives) => alternatives[0]);
+    return [
+        Object.assign({}, ...base),
+        ...samples.flatMap((alternatives, i) =>
+            alternatives
+                .slice(1)
+                .map((alternative) =>
+                    Object.assign(
+                        {},
+                        ...base.map((sample, j) =>
+                            i === j ? alternative : sample,
+                        ),
+                    ),
+                ),
+        ),
+    ];
+}
+
+/** the options of a union to sample, starting from the default or the first one */
+function sampleOptions(
+    envName: string,
+    options: Record<string, Parser<void, unknown>>,
+    defaultValue: string | undefined,
+    prefix: string | undefined,
+    allBranches: boolean | undefined,
+): Record<string, string>[] {
+    const keys = Object.keys(options);
+    const first = defaultValue ?? keys[0];
+    const selected = allBranches
+        ? [first, ...keys.filter((key) => key !== first)]
+        : [first];
+    return selected.flatMap((key) =>
+        options[key]
+            .sampleVariable(void 0, prefix, allBranches)
+            .map((sample) => ({ [envName]: key, ...sample })),
+    );
+}
+
+/** the issues of a value that is not an `Input`, as the values are passed to the parsers without checks */
+function checkInput(value: unknown): StandardSchemaV1.Issue[] {
+    const checkValues = (
+        values: unknown,
+        path: PropertyKey[],
+    ): StandardSchemaV1.Issue[] => {
+        if (typeof values !== 'object' || values === null) {
+            return [
+                { message: 'expected a record of environment variables', path },
+            ];
+        }
+        return Object.entries(values)
+            .filter(([, v]) => v !== undefined && typeof v !== 'string')
+            .map(([key]) => ({
+                message: 'expected a string',
+                path: [...path, key],
+            }));
+    };
+    if (Array.isArray(value)) {
+        return value.flatMap((source: unknown, i) =>
+            typeof source === 'object' && source !== null
+                ? checkValues((source as Source).values, [i, 'values'])
+                : [{ message: 'expected a source', path: [i] }],
+        );
+    }
+    return checkValues(value, []);
 }
 
-function hashSecret(value: string): string {
-    if (value === '') {
-        return '<empty string>';
+/** the redactor of the parser if it is a secret */
+function secretRedactor(
+    parser: object,
+    ctx: Context<unknown>,
+): Redactor | undefined {
+    if (!('isSecret' in parser) || parser.isSecret !== true) {
+        return undefined;
     }
-    const hash = createHash('sha256');
-    hash.update(value);
-    const digest = hash.digest('hex').slice(0, 8);
-    return `<SHA256:${digest}>`;
+    return 'redactor' in parser && parser.redactor !== undefined
+        ? (parser.redactor as Redactor)
+        : ctx.redactor;
 }
 
 export abstract class Variable<T> extends VariableLike<KnownEnvName, T, T> {
+    public fileSuffix?: string;
+    public isResolvable: boolean = false;
     abstract parse(value: string): T;
     public parseContext(ctx: Context<KnownEnvName>): ParseResult<T> {
         const envName = ctx.envName;
-        const state = ctx.values[envName];
+        let state = ctx.values[envName];
+        if (state !== undefined && this.isResolvable) {
+            ctx.references?.push(envName);
+        }
+        if (state === undefined && this.fileSuffix !== undefined) {
+            const fileName = envName + this.fileSuffix;
+            const fileState = ctx.values[fileName];
+            if (fileState !== undefined) {
+                fileState.used = true;
+                ctx.files?.push(fileState.value);
+                try {
+                    const value = readFileSync(fileState.value, 'utf8');
+                    state = {
+                        value: value.replace(/\r?\n$/, ''),
+                        used: false,
+                        source: fileState.value,
+                    };
+                } catch (error) {
+                    if (error instanceof Error) {
+                        const message = `unable to read the file: ${error.message}`;
+                        emit(ctx, {
+                            kind: 'invalid',
+                            envName: fileName,
+                            displayValue: fileState.value,
+                            isSecret: false,
+                            message,
+                        });
+                        return ParseResult.invalidVariable(
+                            fileName,
+                            fileState.value,
+                            message,
+                            error,
+                        );
+                    }
+                    throw error;
+                }
+            }
+        }
         if (state === undefined) {
             if (this.defaultValue.tag === 'none') {
-                logMissingVariable(ctx.logger, envName);
-                return {
-                    success: false,
-                    error: new Error('missing environment variable'),
-                };
+                emit(ctx, missingEvent(envName));
+                return ParseResult.missingVariable(envName);
             } else {
                 const value: T = this.defaultValue.value;
                 let strValue;
@@ -95,40 +422,105 @@ export abstract class Variable<T> extends VariableLike<KnownEnvName, T, T> {
                 } else if (value === undefined) {
                     strValue = 'undefined';
                 } else if (this.isSecret) {
-                    strValue = hashSecret(value.toString());
+                    strValue = redactSecret(
+                        this.redactor ?? ctx.redactor,
+                        this.format(value),
+                    );
                 } else {
-                    strValue = value.toString();
+                    strValue = this.describeValue(value);
                 }
-                ctx.logger.info(`${envName}=${strValue} (default)`);
+                emit(ctx, {
+                    kind: 'default',
+                    envName,
+                    displayValue: strValue,
+                    isSecret: this.isSecret,
+                });
                 return { success: true, data: value };
             }
         } else {
             state.used = true;
+            if (state.error !== undefined) {
+                emit(ctx, {
+                    kind: 'invalid',
+                    envName,
+                    displayValue: state.value,
+                    isSecret: false,
+                    message: state.error,
+                });
+                return ParseResult.invalidVariable(
+                    envName,
+                    state.value,
+                    state.error,
+                );
+            }
+            const displayValue = this.isSecret
+                ? redactSecret(this.redactor ?? ctx.redactor, state.value)
+                : state.value;
             try {
                 const result = this.parse(state.value);
-                if (this.isSecret) {
-                    ctx.logger.info(`${envName}=${hashSecret(state.value)}`);
-                } else {
-                    ctx.logger.info(`${envName}=${result}`);
-                }
+                emit(ctx, {
+                    kind: 'parsed',
+                    envName,
+                    displayValue: this.isSecret
+                        ? displayValue
+                        : this.describeValue(result),
+                    isSecret: this.isSecret,
+                    source: state.source,
+                });
                 return { success: true, data: result };
             } catch (error) {
                 if (error instanceof Error) {
-                    ctx.logger.error(
-                        `${envName}=${state.value} ERROR: ${error.message}`,
+                    emit(ctx, {
+                        kind: 'invalid',
+                        envName,
+                        displayValue,
+                        isSecret: this.isSecret,
+                        message: error.message,
+                    });
+                    return ParseResult.invalidVariable(
+                        envName,
+                        displayValue,
+                        error.message,
+                        error,
                     );
-                    return { success: false, error };
                 }
                 throw error;
             }
         }
     }
 
+    /**
+     * if the variable is not set, read the value from the file specified by `<name><suffix>`
+     * (e.g. `POSTGRES_PASSWORD_FILE`), removing the trailing newline
+     */
+    public fromFile(suffix: string = '_FILE'): this {
+        this.fileSuffix = suffix;
+        return this;
+    }
+
+    /**
+     * resolve a reference such as `file:/run/secrets/db` with the resolvers registered by `ObjectParser.resolvers()`,
+     * when parsed by `parseAsync()` or `safeParseAsync()`
+     */
+    public resolve(): this {
+        this.isResolvable = true;
+        return this;
+    }
+
     /**
      * apply a function to the parsed value.
+     * @param inverse - convert the value back for `format()` and `ObjectParser.serialize()`
+     */
+    public map<U>(f: (value: T) => U, inverse?: (value: U) => T): Variable<U> {
+        return new MapVariable(this, f, inverse);
+    }
+
+    /**
+     * mark the variable as a secret and wrap the parsed value in `Secret`,
+     * so it is not printed by `console.log()` or `JSON.stringify()` by accident
      */
-    public map<U>(f: (value: T) => U): Variable<U> {
-        return new MapVariable(this, f);
+    public wrapSecret(): SecretVariable<T, this> {
+        return new SecretVariable(this);
     }
 
     public optional(): OptionalVariable<T, this> {
@@ -140,27 +532,137 @@ export abstract class Variable<T> extends VariableLike<KnownEnvName, T, T> {
         return result;
     }
 
+    /** convert a value into the string representation of the variable */
+    public format(value: T): string {
+        return String(value);
+    }
+
+    /** the representation of a parsed value in logs */
+    public describeValue(value: T): string {
+        return `${value}`;
+    }
+
+    /** JSON Schema of the raw value */
+    public valueSchema(): JSONSchema {
+        return { type: 'string' };
+    }
+
+    public describeSchema(envName: string): JSONSchema {
+        const schema = this.valueSchema();
+        if (this._description !== undefined) {
+            schema.description = this._description;
+        }
+        if (this.defaultValue.tag === 'some' && !this.isSecret) {
+            schema.default = this.format(this.defaultValue.value);
+        }
+        if (this.isSecret) {
+            schema.writeOnly = true;
+        }
+        return {
+            properties: { [envName]: schema },
+            required: this.defaultValue.tag === 'none' ? [envName] : [],
+        };
+    }
+
+    /** the metavariable describing the type of the value, regardless of the default value */
+    public typeMetavar(): string {
+        return this.getMetavar();
+    }
+
+    public describeEntries(
+        envName: string,
+        prefix?: string,
+        branch?: string,
+    ): DocEntry[] {
+        return [
+            {
+                name: envName,
+                metavar: this.forceMetavar ?? this.typeMetavar(),
+                // the documentation is usually committed, so the default of a secret is left out
+                default:
+                    this.defaultValue.tag === 'some' && !this.isSecret
+                        ? this.format(this.defaultValue.value)
+                        : undefined,
+                required: this.defaultValue.tag === 'none',
+                secret: this.isSecret,
+                description: this._description,
+                branch,
+            },
+        ];
+    }
+
+    /** human-readable constraints on the value, shown as a comment in the description */
+    public describeConstraints(): string[] {
+        return [];
+    }
+
     /** dotenv-style description of the variable */
     public describeVariable(envName: string): string {
         const binding = `${envName}=${this.forceMetavar ?? this.getMetavar()}`;
-        if (this._description !== undefined) {
-            return `# ${this._description}\n${binding}`;
-        } else {
-            return binding;
-        }
+        const constraints = this.describeConstraints();
+        return [
+            this._description !== undefined
+                ? `# ${this._description}`
+                : undefined,
+            constraints.length > 0 ? `# ${constraints.join(', ')}` : undefined,
+            binding,
+        ]
+            .filter((x) => x !== undefined)
+            .join('\n');
+    }
+
+    /** a value that the variable accepts: the default value, or `placeholder()` */
+    public sample(): string {
+        return this.defaultValue.tag === 'some'
+            ? this.format(this.defaultValue.value)
+            : this.placeholder();
+    }
+
+    /** a valid value used when there is no default value; the metavariable by default */
+    public placeholder(): string {
+        return this.forceMetavar ?? this.typeMetavar();
+    }
+
+    public sampleVariable(envName: string): Record<string, string>[] {
+        return [{ [envName]: this.sample() }];
+    }
+
+    public serializeVariable(
+        envName: string,
+        value: T,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string> {
+        const text = this.format(value);
+        return {
+            [envName]:
+                this.isSecret && redactor !== undefined
+                    ? redactSecret(this.redactor ?? redactor, text)
+                    : text,
+        };
     }
 }
 
-export class OptionalVariable<T, V extends VariableLike<KnownEnvName, T, any>>
+export class OptionalVariable<T, V extends Variable<T>>
     implements VariableLike<KnownEnvName, T | undefined, undefined>
 {
     public isSecret: boolean;
+    public isReloadable: boolean;
+    public redactor?: Redactor;
     public envName?: KnownEnvName;
+    public aliases: string[];
+    public deprecation?: string;
     public defaultValue: Option<undefined> = { tag: 'some', value: undefined };
     public _description?: string;
+    public fileSuffix?: string;
     constructor(private variable: V) {
+        this.fileSuffix = variable.fileSuffix;
         this.isSecret = variable.isSecret;
+        this.isReloadable = variable.isReloadable;
+        this.redactor = variable.redactor;
         this.envName = variable.envName;
+        this.aliases = variable.aliases;
+        this.deprecation = variable.deprecation;
         this._description = variable._description;
     }
     public parseContext(
@@ -170,8 +672,17 @@ export class OptionalVariable<T, V extends VariableLike<KnownEnvName, T, any>>
         if (envName === undefined) {
             throw new Error('Unable to determine the name of the variable');
         }
-        if (ctx.values[envName] === undefined) {
-            ctx.logger.info(`${envName}=undefined (default)`);
+        if (
+            ctx.values[envName] === undefined &&
+            (this.fileSuffix === undefined ||
+                ctx.values[envName + this.fileSuffix] === undefined)
+        ) {
+            emit(ctx, {
+                kind: 'default',
+                envName,
+                displayValue: 'undefined',
+                isSecret: this.isSecret,
+            });
             return { success: true, data: undefined };
         }
         return this.variable.parseContext(ctx);
@@ -188,9 +699,25 @@ export class OptionalVariable<T, V extends VariableLike<KnownEnvName, T, any>>
         this.variable.description(description);
         return this;
     }
-    public secret(): this {
-        this.variable.secret();
+    public secret(redactor?: Redactor): this {
+        this.variable.secret(redactor);
         this.isSecret = true;
+        this.redactor = redactor;
+        return this;
+    }
+    public alias(...names: string[]): this {
+        this.variable.alias(...names);
+        this.aliases = this.variable.aliases;
+        return this;
+    }
+    public deprecated(message: string): this {
+        this.variable.deprecated(message);
+        this.deprecation = message;
+        return this;
+    }
+    public reloadable(reloadable: boolean = true): this {
+        this.variable.reloadable(reloadable);
+        this.isReloadable = reloadable;
         return this;
     }
     public env(name: KnownEnvName): this {
@@ -201,8 +728,51 @@ export class OptionalVariable<T, V extends VariableLike<KnownEnvName, T, any>>
     public default(defaultValue: undefined): this {
         return this;
     }
+    public resolve(): this {
+        this.variable.resolve();
+        return this;
+    }
+    public fromFile(suffix: string = '_FILE'): this {
+        this.variable.fromFile(suffix);
+        this.fileSuffix = suffix;
+        return this;
+    }
     public describeVariable(envName: string): string {
-        return `# ${this.variable.describeVariable(envName)}`;
+        return commentOut(this.variable.describeVariable(envName));
+    }
+    public describeSchema(envName: string): JSONSchema {
+        return { ...this.variable.describeSchema(envName), required: [] };
+    }
+    public describeEntries(
+        envName: string,
+        prefix?: string,
+        branch?: string,
+    ): DocEntry[] {
+        return this.variable
+            .describeEntries(envName, prefix, branch)
+            .map((entry) => ({ ...entry, required: false }));
+    }
+    public sampleVariable(): Record<string, string>[] {
+        return [{}];
+    }
+    public fixedVariables(envName: string): string[] {
+        return this.variable.fixedVariables(envName);
+    }
+    public serializeVariable(
+        envName: string,
+        value: T | undefined,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string> {
+        if (value === undefined) {
+            return {};
+        }
+        return this.variable.serializeVariable(
+            envName,
+            value,
+            prefix,
+            redactor,
+        );
     }
 }
 
@@ -210,15 +780,109 @@ export class MapVariable<T, U, V extends Variable<T>> extends Variable<U> {
     constructor(
         private variable: V,
         private f: (value: T) => U,
+        private inverse?: (value: U) => T,
     ) {
         super();
+        this.fileSuffix = variable.fileSuffix;
+        this.isResolvable = variable.isResolvable;
+        this.aliases = variable.aliases;
+        this.deprecation = variable.deprecation;
+    }
+    format(value: U): string {
+        return this.inverse === undefined
+            ? String(value)
+            : this.variable.format(this.inverse(value));
     }
     parse(value: string): U {
         return this.f(this.variable.parse(value));
     }
+    serializeVariable(
+        envName: string,
+        value: U,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string> {
+        if (this.inverse === undefined) {
+            throw new Error(
+                `${envName}: the value cannot be serialized without the inverse function of .map()`,
+            );
+        }
+        return super.serializeVariable(envName, value, prefix, redactor);
+    }
+    placeholder(): string {
+        return this.variable.sample();
+    }
+    getMetavar(): string {
+        return this.variable.getMetavar();
+    }
+    typeMetavar(): string {
+        return this.variable.typeMetavar();
+    }
+    valueSchema(): JSONSchema {
+        return this.variable.valueSchema();
+    }
+}
+
+export class SecretVariable<T, V extends Variable<T>> extends Variable<
+    Secret<T>
+> {
+    constructor(private variable: V) {
+        super();
+        this.isSecret = true;
+        this.isReloadable = variable.isReloadable;
+        this.redactor = variable.redactor;
+        this.envName = variable.envName;
+        this.aliases = variable.aliases;
+        this.deprecation = variable.deprecation;
+        this._description = variable._description;
+        this.forceMetavar = variable.forceMetavar;
+        this.fileSuffix = variable.fileSuffix;
+        this.isResolvable = variable.isResolvable;
+        if (variable.defaultValue.tag === 'some') {
+            this.defaultValue = {
+                tag: 'some',
+                value: new Secret(variable.defaultValue.value),
+            };
+        }
+    }
+    parse(value: string): Secret<T> {
+        return new Secret(this.variable.parse(value));
+    }
+    format(value: Secret<T>): string {
+        return this.variable.format(value.reveal());
+    }
+    serializeVariable(
+        envName: string,
+        value: Secret<T>,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string> {
+        const env = this.variable.serializeVariable(envName, value.reveal());
+        if (redactor === undefined) {
+            return env;
+        }
+        return Object.fromEntries(
+            Object.entries(env).map(([name, text]) => [
+                name,
+                redactSecret(this.redactor ?? redactor, text),
+            ]),
+        );
+    }
+    placeholder(): string {
+        return this.variable.sample();
+    }
     getMetavar(): string {
         return this.variable.getMetavar();
     }
+    typeMetavar(): string {
+        return this.variable.typeMetavar();
+    }
+    valueSchema(): JSONSchema {
+        return this.variable.valueSchema();
+    }
+    describeConstraints(): string[] {
+        return this.variable.describeConstraints();
+    }
 }
 
 /** ParsersOf<T> is a record where each value is a Parser<T[key]> for each key in T */
@@ -226,73 +890,330 @@ export type ParsersOf<EnvName, T> = {
     [K in keyof T]: Parser<EnvName, T[K]>;
 };
 
-export class ObjectParser<T> extends VariableLike<never, T> {
+type Refinement<T> = {
+    check(value: T): boolean | string;
+    fields: string[];
+    message?: string;
+};
+
+export class ObjectParser<T>
+    extends VariableLike<never, T>
+    implements StandardSchemaV1<Input, T>
+{
+    public isGroup = true;
     readonly _T!: T;
     private _logger: ILogger;
     private _reportUnused: boolean = false;
     private _rejectUnused: boolean = false;
     private assumedPrefixes: string[] = [];
     private ignoredNames: string[] = [];
+    private _prefix: string = '';
+    private refinements: Refinement<T>[] = [];
+    private _resolvers: SecretResolver[] = [];
+    private _redactor?: Redactor;
+    private _verbosity: LogLevel = 'info';
     public constructor(public fields: ParsersOf<KnownEnvName, T>) {
         super();
         this._logger = new ConsoleLogger();
     }
     public parseContext(ctx: Context<unknown>): ParseResult<T> {
         const result: ParseResults<T> = {} as ParseResults<T>;
+        const prefix = ctx.prefix + this._prefix;
+        const redactor = this._redactor ?? ctx.redactor;
         for (const key in this.fields) {
             const variable = this.fields[key];
-            const envName = variable.envName ?? key;
+            const name: ParseResult<string> = variable.isGroup
+                ? { success: true, data: prefix + key }
+                : resolveName(
+                      { ...ctx, redactor },
+                      variable,
+                      prefix + (variable.envName ?? key),
+                      prefix,
+                  );
+            if (!name.success) {
+                result[key] = name;
+                continue;
+            }
+            const envName = name.data;
             result[key] = variable.parseContext({
                 ...ctx,
+                prefix,
+                redactor,
                 envName,
                 envValue: ctx.values[envName]?.value,
             });
         }
-        return ParseResults.combine(result);
+        const combined = ParseResults.combine(result);
+        if (!combined.success) {
+            return combined;
+        }
+        return this.checkRefinements(
+            { ...ctx, redactor },
+            prefix,
+            combined.data,
+        );
     }
-    public safeParse(input?: Record<string, string>): ParseResult<T> {
-        const raw = input ?? process.env;
-        const env: Record<string, State> = {};
-        for (const [key, value] of Object.entries(raw)) {
-            if (value === undefined) {
+    private checkRefinements(
+        ctx: Context<unknown>,
+        prefix: string,
+        data: T,
+    ): ParseResult<T> {
+        const messages: string[] = [];
+        const issues: Issue[] = [];
+        for (const { check, fields, message } of this.refinements) {
+            const outcome = check(data);
+            if (outcome === true) {
                 continue;
             }
-            env[key] = { value, used: false };
+            const reason =
+                typeof outcome === 'string'
+                    ? outcome
+                    : (message ?? 'invalid combination of values');
+            const parsers = fields.map(
+                (field) => this.fields[field as keyof T],
+            );
+            const envNames = fields.map(
+                (field, i) => prefix + (parsers[i].envName ?? field),
+            );
+            messages.push(reason);
+            fields.forEach((field, i) => {
+                const parser = parsers[i];
+                const state = ctx.values[envNames[i]];
+                const redactor = secretRedactor(parser, ctx);
+                const value =
+                    state === undefined
+                        ? undefined
+                        : redactor !== undefined
+                          ? redactSecret(redactor, state.value)
+                          : state.value;
+                emit(ctx, {
+                    kind: 'invalid',
+                    envName: envNames[i],
+                    displayValue: value ?? 'undefined',
+                    isSecret: redactor !== undefined,
+                    message: reason,
+                });
+                issues.push({
+                    reason: 'invalid',
+                    envName: envNames[i],
+                    path: [field],
+                    value,
+                    message: reason,
+                });
+            });
+        }
+        if (messages.length > 0) {
+            return {
+                success: false,
+                error: new EVPError(messages.join('; '), issues),
+            };
+        }
+        return { success: true, data };
+    }
+    private prepareValues(input?: Input): Record<string, State> {
+        const sources = Array.isArray(input)
+            ? input
+            : [{ values: input ?? process.env }];
+        const env: Record<string, State> = {};
+        for (const source of sources) {
+            for (const [key, value] of Object.entries(source.values)) {
+                if (value === undefined) {
+                    continue;
+                }
+                env[key] = { value, used: false, source: source.name };
+            }
         }
+        return env;
+    }
+    public safeParse(input?: Input): ParseResult<T> {
+        return this.parseValues(this.prepareValues(input));
+    }
+    /**
+     * parse the environment after resolving the references to the secrets (e.g. `file:/run/secrets/db`)
+     * in the variables marked with `.resolve()`, with the resolvers registered by `.resolvers()`
+     */
+    public async safeParseAsync(input?: Input): Promise<ParseResult<T>> {
+        const env = this.prepareValues(input);
+        await resolveReferences(
+            env,
+            this.findReferences(env),
+            this._resolvers,
+            this.activeLogger(),
+        );
+        return this.parseValues(env);
+    }
+    /** the variables marked with `.resolve()` that the parser reads, found by parsing a copy of the environment silently */
+    private findReferences(env: Record<string, State>): string[] {
+        const references: string[] = [];
+        this.parseContext({
+            values: Object.fromEntries(
+                Object.entries(env).map(([key, state]) => [key, { ...state }]),
+            ),
+            logger: { info() {}, error() {} },
+            envName: void 0,
+            envValue: undefined,
+            prefix: '',
+            redactor: new Sha256Redactor(),
+            references,
+        });
+        return references;
+    }
+    /** the logger that discards the messages below the verbosity */
+    private activeLogger(): ILogger {
+        return filterLogger(this._logger, this._verbosity);
+    }
+    private parseValues(
+        env: Record<string, State>,
+        files?: string[],
+    ): ParseResult<T> {
+        const logger = this.activeLogger();
         const result = this.parseContext({
             values: env,
-            logger: this._logger,
+            logger,
             envName: void 0,
             envValue: undefined,
+            prefix: '',
+            redactor: new Sha256Redactor(),
+            files,
         });
-        const unused = [];
+        const unused: string[] = [];
         if (this._reportUnused || this._rejectUnused) {
-            for (const key in env) {
-                if (!env[key].used) {
-                    if (!this.assumedPrefixes.some((prefix) => key.startsWith(prefix))) {
-                        continue;
-                    }
-                    if (this.ignoredNames.includes(key)) {
-                        continue;
-                    }
-                    unused.push(key);
-                    this._logger.info(`${key} is unused`);
-                }
+            for (const key of this.findUnused(env)) {
+                unused.push(key);
+                logEvent(logger, {
+                    kind: 'unused',
+                    envName: key,
+                    isSecret: false,
+                });
             }
         }
         if (this._rejectUnused && unused.length > 0) {
+            const issues: Issue[] = unused.map((key) => ({
+                reason: 'unused',
+                envName: key,
+                path: [],
+                message: 'unused environment variable',
+            }));
             return {
                 success: false,
-                error: new Error(`Unused variables: ${unused.join(', ')}`, {
-                    cause: {
-                        unused,
-                    }
-                }),
+                error: new EVPError(
+                    `Unused variables: ${unused.join(', ')}`,
+                    result.success
+                        ? issues
+                        : [...result.error.issues, ...issues],
+                    {
+                        cause: {
+                            unused,
+                        },
+                    },
+                ),
             };
         }
         return result;
     }
-    public parse(input?: Record<string, string>): T {
+    /** the variables with the assumed prefixes that have not been read, except the ignored ones */
+    private findUnused(env: Record<string, State>): string[] {
+        const unused = [];
+        for (const key in env) {
+            if (!env[key].used) {
+                if (!this.assumedPrefixes.some((prefix) => key.startsWith(prefix))) {
+                    continue;
+                }
+                if (this.ignoredNames.includes(key)) {
+                    continue;
+                }
+                unused.push(key);
+            }
+        }
+        return unused;
+    }
+    /**
+     * report which variables are supplied, defaulted, missing, invalid or unused without logging anything.
+     * Unused variables are only detected for the prefixes registered by `.assumePrefix()`.
+     */
+    public audit(input?: Input): AuditReport {
+        const env = this.prepareValues(input);
+        const report = emptyReport();
+        this.parseContext({
+            values: env,
+            logger: { info() {}, error() {} },
+            envName: void 0,
+            envValue: undefined,
+            prefix: '',
+            redactor: new Sha256Redactor(),
+            report,
+        });
+        report.unused = this.findUnused(env);
+        return report;
+    }
+    /**
+     * parse the input, and parse it again when the files read by `.fromFile()` or `options.files` change.
+     * The watcher keeps the last good configuration if a reparse fails.
+     * @throws EVPError if the initial parse fails
+     */
+    public watch(options: WatchOptions = {}): ConfigWatcher<T> {
+        // the names of the variables of the fixed fields, including the aliases
+        const fixedNames: Record<string, string[]> = {};
+        for (const key in this.fields) {
+            const parser = this.fields[key];
+            const envName = this._prefix + (parser.envName ?? key);
+            if (parser.isReloadable === false) {
+                fixedNames[key] = [
+                    envName,
+                    ...(parser.aliases ?? []).map(
+                        (alias) => this._prefix + alias,
+                    ),
+                ];
+                continue;
+            }
+            const nested = parser.fixedVariables(envName, this._prefix);
+            if (nested.length > 0) {
+                throw new Error(
+                    `${nested.join(', ')}: .reloadable(false) is only supported for top-level fields; mark the enclosing field instead`,
+                );
+            }
+        }
+        let env: Record<string, State> = {};
+        return new ConfigWatcher(
+            (input, files) => {
+                env = this.prepareValues(input);
+                return this.parseValues(env, files);
+            },
+            // the name under which the value of a fixed field is set, which may be an alias
+            (key) =>
+                fixedNames[key]?.find((name) => env[name] !== undefined) ??
+                fixedNames[key]?.[0],
+            this.activeLogger(),
+            options,
+        );
+    }
+    /**
+     * the Standard Schema interface, which validates a record of environment variables
+     * so that the parser can be passed to any library that accepts Standard Schema
+     */
+    public get '~standard'(): StandardSchemaV1.Props<Input, T> {
+        return {
+            version: 1,
+            vendor: 'evp-ts',
+            validate: (value) => {
+                const issues = checkInput(value);
+                if (issues.length > 0) {
+                    return { issues };
+                }
+                const result = this.safeParse(value as Input);
+                if (result.success) {
+                    return { value: result.data };
+                }
+                return {
+                    issues: result.error.issues.map((issue) => ({
+                        message: issue.message,
+                        path: [issue.envName],
+                    })),
+                };
+            },
+        };
+    }
+    public parse(input?: Input): T {
         const final = this.safeParse(input);
         if (final.success) {
             return final.data;
@@ -300,11 +1221,41 @@ export class ObjectParser<T> extends VariableLike<never, T> {
             throw final.error;
         }
     }
-    public describeVariable(envName?: unknown, prepend?: string): string {
+    public async parseAsync(input?: Input): Promise<T> {
+        const final = await this.safeParseAsync(input);
+        if (final.success) {
+            return final.data;
+        } else {
+            throw final.error;
+        }
+    }
+    public describeVariable(
+        envName?: unknown,
+        prepend?: string,
+        prefix: string = '',
+    ): string {
         const header = this._description ? `# ${this._description}` : undefined;
+        const fieldPrefix = prefix + this._prefix;
         const fields = Object.keys(this.fields).map((k) => {
             const parser = this.fields[k as keyof T];
-            return parser.describeVariable(parser.envName ?? k);
+            const aliases = (parser.aliases ?? []).map(
+                (alias) => fieldPrefix + alias,
+            );
+            return [
+                aliases.length > 0
+                    ? `# aliases: ${aliases.join(', ')}`
+                    : undefined,
+                parser.deprecation !== undefined
+                    ? `# deprecated: ${parser.deprecation}`
+                    : undefined,
+                parser.describeVariable(
+                    fieldPrefix + (parser.envName ?? k),
+                    undefined,
+                    fieldPrefix,
+                ),
+            ]
+                .filter((x) => x !== undefined)
+                .join('\n');
         });
         return [header, prepend, ...fields]
             .filter((x) => x !== undefined)
@@ -313,19 +1264,176 @@ export class ObjectParser<T> extends VariableLike<never, T> {
     public describe(): string {
         return this.describeVariable();
     }
+    public describeSchema(envName?: unknown, prefix: string = ''): JSONSchema {
+        const fieldPrefix = prefix + this._prefix;
+        return mergeSchemas(
+            Object.keys(this.fields).map((k) => {
+                const parser = this.fields[k as keyof T];
+                return parser.describeSchema(
+                    fieldPrefix + (parser.envName ?? k),
+                    fieldPrefix,
+                );
+            }),
+        );
+    }
+    public describeEntries(
+        envName?: unknown,
+        prefix: string = '',
+        branch?: string,
+    ): DocEntry[] {
+        const fieldPrefix = prefix + this._prefix;
+        return Object.keys(this.fields).flatMap((k) => {
+            const parser = this.fields[k as keyof T];
+            return parser.describeEntries(
+                fieldPrefix + (parser.envName ?? k),
+                fieldPrefix,
+                branch,
+            );
+        });
+    }
+    public serializeVariable(
+        envName: unknown,
+        value: T,
+        prefix: string = '',
+        redactor?: Redactor,
+    ): Record<string, string> {
+        const fieldPrefix = prefix + this._prefix;
+        const fieldRedactor =
+            redactor === undefined ? undefined : (this._redactor ?? redactor);
+        return Object.assign(
+            {},
+            ...Object.keys(this.fields).map((k) => {
+                const parser = this.fields[k as keyof T];
+                return parser.serializeVariable(
+                    fieldPrefix + (parser.envName ?? k),
+                    value[k as keyof T],
+                    fieldPrefix,
+                    fieldRedactor,
+                );
+            }),
+        );
+    }
+    public sampleVariable(
+        envName?: unknown,
+        prefix: string = '',
+        allBranches?: boolean,
+    ): Record<string, string>[] {
+        const fieldPrefix = prefix + this._prefix;
+        return combineSamples(
+            Object.keys(this.fields).map((k) => {
+                const parser = this.fields[k as keyof T];
+                return parser.sampleVariable(
+                    fieldPrefix + (parser.envName ?? k),
+                    fieldPrefix,
+                    allBranches,
+                );
+            }),
+        );
+    }
+    public fixedVariables(envName?: unknown, prefix: string = ''): string[] {
+        const fieldPrefix = prefix + this._prefix;
+        return [
+            ...(this.isReloadable === false && envName !== undefined
+                ? [String(envName)]
+                : []),
+            ...Object.keys(this.fields).flatMap((k) => {
+                const parser = this.fields[k as keyof T];
+                return parser.fixedVariables(
+                    fieldPrefix + (parser.envName ?? k),
+                    fieldPrefix,
+                );
+            }),
+        ];
+    }
+    /**
+     * a sample environment that the parser accepts, using the default values, the first values of enums,
+     * placeholders, and the default or first options of unions.
+     * Constraints such as `.regex()` and `.refine()` are not taken into account.
+     */
+    public sample(): Record<string, string> {
+        return this.sampleVariable(void 0, '', false)[0];
+    }
+    /** sample environments covering every option of the unions */
+    public sampleAllBranches(): Record<string, string>[] {
+        return this.sampleVariable(void 0, '', true);
+    }
+    /** convert the config back into environment variables, e.g. for a child process */
+    public serialize(
+        config: T,
+        options: SerializeOptions = {},
+    ): Record<string, string> {
+        return this.serializeVariable(
+            void 0,
+            config,
+            '',
+            options.redactSecrets ? new Sha256Redactor() : undefined,
+        );
+    }
+    /** render the documentation of the variables (a Markdown table by default) */
+    public document(
+        formatter: DocFormatter = new MarkdownTableFormatter(),
+    ): string {
+        return formatter.format(this.describeEntries());
+    }
+    /** JSON Schema of the environment variables read by the parser */
+    public toJSONSchema(): JSONSchema {
+        return {
+            $schema: 'https://json-schema.org/draft/2020-12/schema',
+            type: 'object',
+            ...(this._description !== undefined
+                ? { description: this._description }
+                : {}),
+            ...this.describeSchema(),
+        };
+    }
+    /** set how the secrets are redacted in logs and errors (default: `Sha256Redactor`) */
+    public redact(redactor: Redactor): this {
+        this._redactor = redactor;
+        return this;
+    }
     public logger(logger: ILogger): this {
         this._logger = logger;
         return this;
     }
+    /**
+     * discard the log messages below the level (default: `info`).
+     * e.g. `warn` omits the values of the variables but keeps warnings and errors.
+     */
+    public verbosity(level: LogLevel): this {
+        this._verbosity = level;
+        return this;
+    }
     public getMetavar(): string {
         // this should never be called
         return 'object';
     }
-    public assumePrefix(...prefixes: string[]): this {
-        this.assumedPrefixes.push(...prefixes);
+    /** register resolvers used by `parseAsync()` and `safeParseAsync()` */
+    public resolvers(...resolvers: SecretResolver[]): this {
+        this._resolvers.push(...resolvers);
         return this;
     }
-    public ignoreUnused(names: string[]): this {
+    /**
+     * add a check that runs after all the fields are parsed.
+     * `check` returns true if the value is valid, and false or an error message otherwise.
+     * The failure is reported on the variables of `fields`.
+     */
+    public refine(
+        check: (value: T) => boolean | string,
+        options: { fields: (keyof T & string)[]; message?: string },
+    ): this {
+        this.refinements.push({ check, ...options });
+        return this;
+    }
+    /** prepend the prefix to the names of the variables in this object, including nested ones */
+    public prefix(prefix: string): this {
+        this._prefix = prefix;
+        return this;
+    }
+    public assumePrefix(...prefixes: string[]): this {
+        this.assumedPrefixes.push(...prefixes);
+        return this;
+    }
+    public ignoreUnused(names: string[]): this {
         this.ignoredNames.push(...names);
         return this;
     }
@@ -356,29 +1464,131 @@ export class UntaggedUnionParser<T> extends VariableLike<
     parseContext(
         ctx: Context<KnownEnvName>,
     ): ParseResult<{ [K in keyof T]: T[K] }[keyof T]> {
+        const state = ctx.values[ctx.envName];
+        if (state !== undefined) {
+            state.used = true;
+        }
         const value = ctx.envValue ?? toUndefined(this.defaultValue);
         if (value === undefined) {
-            logMissingVariable(ctx.logger, ctx.envName);
-            return ParseResult.missingVariable();
+            emit(ctx, missingEvent(ctx.envName));
+            return ParseResult.missingVariable(ctx.envName);
         }
         const parser = this._options[value as keyof T];
         if (parser === undefined) {
-            const error = new Error(
-                `it must be ${serialComma(Object.keys(this._options))}, but got ${value}`,
-            );
-            ctx.logger.error(`${ctx.envName}=${value} ERROR: ${error.message}`);
-            return { success: false, error };
+            const message = `it must be ${serialComma(Object.keys(this._options))}, but got ${value}`;
+            emit(ctx, {
+                kind: 'invalid',
+                envName: ctx.envName,
+                displayValue: value,
+                isSecret: false,
+                message,
+            });
+            return ParseResult.invalidVariable(ctx.envName, value, message);
+        }
+        if (ctx.report !== undefined) {
+            record(ctx.report, {
+                kind: state === undefined ? 'default' : 'parsed',
+                envName: ctx.envName,
+                isSecret: false,
+            });
         }
         return parser.parseContext({
             ...ctx,
             envName: void 0,
         });
     }
-    describeVariable(envName: string): string {
+    serializeVariable(
+        envName: string,
+        value: UntaggedUnion<T>,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string> {
+        // find the option by the set of the keys
+        const keys = Object.keys(value as object)
+            .sort()
+            .join();
+        const candidates = Object.keys(this._options).filter((k) => {
+            const option = this._options[k as keyof T];
+            return (
+                'fields' in option &&
+                Object.keys(option.fields as object)
+                    .sort()
+                    .join() === keys
+            );
+        });
+        if (candidates.length !== 1) {
+            throw new Error(
+                candidates.length === 0
+                    ? `${envName}: the value does not match any option`
+                    : `${envName}: the value matches more than one option: ${serialComma(candidates)}`,
+            );
+        }
+        const [option] = candidates;
+        return {
+            [envName]: option,
+            ...this._options[option as keyof T].serializeVariable(
+                void 0,
+                value as T[keyof T],
+                prefix,
+                redactor,
+            ),
+        };
+    }
+    sampleVariable(
+        envName: string,
+        prefix?: string,
+        allBranches?: boolean,
+    ): Record<string, string>[] {
+        return sampleOptions(
+            envName,
+            this._options,
+            toUndefined(this.defaultValue),
+            prefix,
+            allBranches,
+        );
+    }
+    fixedVariables(envName: string, prefix?: string): string[] {
+        return [
+            ...super.fixedVariables(envName),
+            ...Object.values<Parser<void, unknown>>(this._options).flatMap(
+                (option) => option.fixedVariables(void 0, prefix),
+            ),
+        ];
+    }
+    describeVariable(
+        envName: string,
+        prepend?: string,
+        prefix?: string,
+    ): string {
         return describeOptions(
             envName,
             this._options,
             toUndefined(this.defaultValue),
+            prefix,
+        );
+    }
+    describeEntries(
+        envName: string,
+        prefix?: string,
+        branch?: string,
+    ): DocEntry[] {
+        return describeOptionsEntries(
+            envName,
+            this._options,
+            this.forceMetavar,
+            toUndefined(this.defaultValue),
+            this._description,
+            prefix,
+            branch,
+        );
+    }
+    describeSchema(envName: string, prefix?: string): JSONSchema {
+        return describeOptionsSchema(
+            envName,
+            this._options,
+            toUndefined(this.defaultValue),
+            this._description,
+            prefix,
         );
     }
     getMetavar(): string {
@@ -411,25 +1621,34 @@ export class TaggedUnionParser<Tag extends string, T> extends VariableLike<
         super();
     }
     parseContext(ctx: Context<KnownEnvName>): ParseResult<TaggedUnion<Tag, T>> {
+        const state = ctx.values[ctx.envName];
+        if (state !== undefined) {
+            state.used = true;
+        }
         const value = ctx.envValue ?? toUndefined(this.defaultValue);
         if (value === undefined) {
-            logMissingVariable(ctx.logger, ctx.envName);
-            return ParseResult.missingVariable();
+            emit(ctx, missingEvent(ctx.envName));
+            return ParseResult.missingVariable(ctx.envName);
         }
         const parser = this._options[value as keyof T];
         if (parser === undefined) {
-            const error = new Error(
-                `it must be ${serialComma(Object.keys(this._options))}, but got ${value}`,
-            );
-            ctx.logger.error(`${ctx.envName}=${value} ERROR: ${error.message}`);
-            return { success: false, error };
-        }
-        const isDefault = ctx.envValue === undefined;
-        if (isDefault) {
-            ctx.logger.info(`${ctx.envName}=${value} (default)`);
-        } else {
-            ctx.logger.info(`${ctx.envName}=${value}`);
+            const message = `it must be ${serialComma(Object.keys(this._options))}, but got ${value}`;
+            emit(ctx, {
+                kind: 'invalid',
+                envName: ctx.envName,
+                displayValue: value,
+                isSecret: false,
+                message,
+            });
+            return ParseResult.invalidVariable(ctx.envName, value, message);
         }
+        emit(ctx, {
+            kind: state === undefined ? 'default' : 'parsed',
+            envName: ctx.envName,
+            displayValue: value,
+            isSecret: false,
+            source: state?.source,
+        });
         const result = parser.parseContext({
             ...ctx,
             envName: void 0,
@@ -447,11 +1666,82 @@ export class TaggedUnionParser<Tag extends string, T> extends VariableLike<
             return result;
         }
     }
-    describeVariable(envName: string): string {
+    serializeVariable(
+        envName: string,
+        value: TaggedUnion<Tag, T>,
+        prefix?: string,
+        redactor?: Redactor,
+    ): Record<string, string> {
+        const option = value[this.tag] as Extract<keyof T, string>;
+        const parser = this._options[option];
+        if (parser === undefined) {
+            throw new Error(`${envName}: unknown option ${option}`);
+        }
+        return {
+            [envName]: option,
+            ...parser.serializeVariable(
+                void 0,
+                value as T[typeof option],
+                prefix,
+                redactor,
+            ),
+        };
+    }
+    sampleVariable(
+        envName: string,
+        prefix?: string,
+        allBranches?: boolean,
+    ): Record<string, string>[] {
+        return sampleOptions(
+            envName,
+            this._options,
+            toUndefined(this.defaultValue),
+            prefix,
+            allBranches,
+        );
+    }
+    fixedVariables(envName: string, prefix?: string): string[] {
+        return [
+            ...super.fixedVariables(envName),
+            ...Object.values<Parser<void, unknown>>(this._options).flatMap(
+                (option) => option.fixedVariables(void 0, prefix),
+            ),
+        ];
+    }
+    describeVariable(
+        envName: string,
+        prepend?: string,
+        prefix?: string,
+    ): string {
         return describeOptions(
             envName,
             this._options,
             toUndefined(this.defaultValue),
+            prefix,
+        );
+    }
+    describeEntries(
+        envName: string,
+        prefix?: string,
+        branch?: string,
+    ): DocEntry[] {
+        return describeOptionsEntries(
+            envName,
+            this._options,
+            this.forceMetavar,
+            toUndefined(this.defaultValue),
+            this._description,
+            prefix,
+            branch,
+        );
+    }
+    describeSchema(envName: string, prefix?: string): JSONSchema {
+        return describeOptionsSchema(
+            envName,
+            this._options,
+            toUndefined(this.defaultValue),
+            this._description,
+            prefix,
         );
     }
     getMetavar(): string {
@@ -467,11 +1757,12 @@ function describeOptions<T>(
     key: string,
     options: ParsersOf<unknown, T>,
     defaultOption?: keyof T,
+    prefix?: string,
 ): string {
     return Object.keys(options)
         .map((k) => {
             const option = options[k as keyof T];
-            const desc = option.describeVariable(void 0, `${key}=${k}`);
+            const desc = option.describeVariable(void 0, `${key}=${k}`, prefix);
             if (k === defaultOption) {
                 return desc;
             } else {
@@ -481,6 +1772,72 @@ function describeOptions<T>(
         .join('\n\n');
 }
 
+function describeOptionsSchema<T>(
+    key: string,
+    options: ParsersOf<unknown, T>,
+    defaultOption?: keyof T,
+    description?: string,
+    prefix?: string,
+): JSONSchema {
+    const names = Object.keys(options);
+    const discriminator: JSONSchema = { type: 'string', enum: names };
+    if (description !== undefined) {
+        discriminator.description = description;
+    }
+    if (defaultOption !== undefined) {
+        discriminator.default = defaultOption.toString();
+    }
+    return {
+        properties: { [key]: discriminator },
+        required: defaultOption === undefined ? [key] : [],
+        allOf: [
+            {
+                oneOf: names.map((k) =>
+                    mergeSchemas([
+                        {
+                            properties: { [key]: { const: k } },
+                            // the default option is chosen when the variable is not set
+                            required: k === defaultOption ? [] : [key],
+                        },
+                        options[k as keyof T].describeSchema(void 0, prefix),
+                    ]),
+                ),
+            },
+        ],
+    };
+}
+
+function describeOptionsEntries<T>(
+    key: string,
+    options: ParsersOf<unknown, T>,
+    metavar?: string,
+    defaultOption?: keyof T,
+    description?: string,
+    prefix?: string,
+    branch?: string,
+): DocEntry[] {
+    const names = Object.keys(options);
+    const discriminator: DocEntry = {
+        name: key,
+        metavar: metavar ?? names.join('|'),
+        default: defaultOption?.toString(),
+        required: defaultOption === undefined,
+        secret: false,
+        description,
+        branch,
+    };
+    return [
+        discriminator,
+        ...names.flatMap((k) =>
+            options[k as keyof T].describeEntries(
+                void 0,
+                prefix,
+                branch === undefined ? `${key}=${k}` : `${branch}, ${key}=${k}`,
+            ),
+        ),
+    ];
+}
+
 function commentOut(text: string): string {
     return text
         .split('\n')
@@ -491,8 +1848,8 @@ function commentOut(text: string): string {
 function serialComma(items: string[]): string {
     if (items.length === 1) return items[0];
     if (items.length === 2) return items.join(' or ');
-    const last = items.pop();
-    return `${items.join(', ')}, or ${last}`;
+    const last = items[items.length - 1];
+    return `${items.slice(0, -1).join(', ')}, or ${last}`;
 }
 
 export class Enum<U extends string, T extends U[]> extends Variable<T[number]> {
@@ -507,32 +1864,212 @@ export class Enum<U extends string, T extends U[]> extends Variable<T[number]> {
         }
         return value as T[number];
     }
+    placeholder(): string {
+        return this.values[0];
+    }
     getMetavar(): string {
         return this.values.join('|');
     }
+    valueSchema(): JSONSchema {
+        return { type: 'string', enum: [...this.values] };
+    }
 }
 
 export class NumericVariable extends Variable<number> {
+    private _strict: boolean = false;
+    private _int: boolean = false;
+    private _positive: boolean = false;
+    private _min?: number;
+    private _max?: number;
     parse(value: string): number {
+        if (
+            this._strict &&
+            !/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(value)
+        ) {
+            throw new Error('invalid number');
+        }
         const num = parseFloat(value);
         if (isNaN(num)) {
             throw new Error('invalid number');
         }
+        if (this._int && !Number.isInteger(num)) {
+            throw new Error(`it must be an integer, but got ${num}`);
+        }
+        if (this._positive && num <= 0) {
+            throw new Error(`it must be positive, but got ${num}`);
+        }
+        if (this._min !== undefined && num < this._min) {
+            throw new Error(`it must be at least ${this._min}, but got ${num}`);
+        }
+        if (this._max !== undefined && num > this._max) {
+            throw new Error(`it must be at most ${this._max}, but got ${num}`);
+        }
         return num;
     }
+    /** reject values with trailing garbage (e.g. `80abc`) instead of ignoring it */
+    public strict(): this {
+        this._strict = true;
+        return this;
+    }
+    /** require the value to be an integer */
+    public int(): this {
+        this._int = true;
+        return this;
+    }
+    /** require the value to be greater than 0 */
+    public positive(): this {
+        this._positive = true;
+        return this;
+    }
+    /** require the value to be greater than or equal to `min` */
+    public min(min: number): this {
+        this._min = min;
+        return this;
+    }
+    /** require the value to be less than or equal to `max` */
+    public max(max: number): this {
+        this._max = max;
+        return this;
+    }
+    valueSchema(): JSONSchema {
+        return {
+            type: 'string',
+            pattern: this._int
+                ? '^[+-]?\\d+$'
+                : '^[+-]?(\\d+\\.?\\d*|\\.\\d+)([eE][+-]?\\d+)?$',
+        };
+    }
+    public describeConstraints(): string[] {
+        return [
+            this._int ? 'integer' : undefined,
+            this._positive ? '> 0' : undefined,
+            this._min !== undefined ? `>= ${this._min}` : undefined,
+            this._max !== undefined ? `<= ${this._max}` : undefined,
+        ].filter((x) => x !== undefined);
+    }
+    placeholder(): string {
+        let value = this._min ?? 0;
+        if (this._positive && value <= 0) {
+            value = 1;
+        }
+        if (this._int) {
+            value = Math.ceil(value);
+        }
+        if (this._max !== undefined && value > this._max) {
+            value = this._max;
+        }
+        return value.toString();
+    }
+    typeMetavar(): string {
+        return '<number>';
+    }
     getMetavar(): string {
-        return fromOption(this.defaultValue, '<number>', (value) =>
+        return fromOption(this.defaultValue, this.typeMetavar(), (value) =>
             value.toString(),
         );
     }
 }
 
 export class StringVariable extends Variable<string> {
-    parse(value: string): string {
+    private _trim: boolean = false;
+    private _minLength?: number;
+    private _maxLength?: number;
+    private patterns: { regex: RegExp; message?: string }[] = [];
+    parse(input: string): string {
+        const value = this._trim ? input.trim() : input;
+        if (this._minLength !== undefined && value.length < this._minLength) {
+            throw new Error(
+                this._minLength === 1
+                    ? 'it must not be empty'
+                    : `it must be at least ${this._minLength} characters long, but got ${value.length}`,
+            );
+        }
+        if (this._maxLength !== undefined && value.length > this._maxLength) {
+            throw new Error(
+                `it must be at most ${this._maxLength} characters long, but got ${value.length}`,
+            );
+        }
+        for (const { regex, message } of this.patterns) {
+            // reset the state of global and sticky regexes
+            regex.lastIndex = 0;
+            if (!regex.test(value)) {
+                throw new Error(message ?? `it must match ${regex}`);
+            }
+        }
         return value;
     }
+    /** remove whitespace from both ends of the value before validating it */
+    public trim(): this {
+        this._trim = true;
+        return this;
+    }
+    /** require the value to match the regular expression */
+    public regex(regex: RegExp, message?: string): this {
+        this.patterns.push({ regex, message });
+        return this;
+    }
+    /** require the value to have at least `length` characters */
+    public minLength(length: number): this {
+        this._minLength = length;
+        return this;
+    }
+    /** require the value to have at most `length` characters */
+    public maxLength(length: number): this {
+        this._maxLength = length;
+        return this;
+    }
+    /** reject the empty string */
+    public nonEmpty(): this {
+        return this.minLength(1);
+    }
+    valueSchema(): JSONSchema {
+        const schema: JSONSchema = { type: 'string' };
+        if (this._minLength !== undefined) {
+            schema.minLength = this._minLength;
+        }
+        if (this._maxLength !== undefined) {
+            schema.maxLength = this._maxLength;
+        }
+        if (this.patterns.length === 1) {
+            schema.pattern = this.patterns[0].regex.source;
+        } else if (this.patterns.length > 1) {
+            schema.allOf = this.patterns.map(({ regex }) => ({
+                pattern: regex.source,
+            }));
+        }
+        return schema;
+    }
+    public describeConstraints(): string[] {
+        return [
+            this._minLength === 1 ? 'non-empty' : undefined,
+            this._minLength !== undefined && this._minLength > 1
+                ? `at least ${this._minLength} characters`
+                : undefined,
+            this._maxLength !== undefined
+                ? `at most ${this._maxLength} characters`
+                : undefined,
+            ...this.patterns.map(({ regex }) => `matches ${regex}`),
+        ].filter((x) => x !== undefined);
+    }
+    placeholder(): string {
+        let value = super.placeholder();
+        if (this._minLength !== undefined) {
+            value = value.padEnd(this._minLength, 'x');
+        }
+        if (this._maxLength !== undefined) {
+            value = value.slice(0, this._maxLength);
+        }
+        return value;
+    }
+    typeMetavar(): string {
+        return '<string>';
+    }
     getMetavar(): string {
-        return fromOption(this.defaultValue, '<string>', (value) => value);
+        return fromOption(
+            this.defaultValue,
+            this.typeMetavar(),
+            (value) => value,
+        );
     }
 }
 
@@ -546,9 +2083,506 @@ export class BooleanVariable extends Variable<boolean> {
         }
         throw new Error('invalid boolean');
     }
+    valueSchema(): JSONSchema {
+        return {
+            type: 'string',
+            enum: ['true', 'yes', 'on', '1', 'false', 'no', 'off', '0'],
+        };
+    }
+    placeholder(): string {
+        return 'false';
+    }
+    typeMetavar(): string {
+        return 'true|false';
+    }
+    getMetavar(): string {
+        return fromOption(this.defaultValue, this.typeMetavar(), (value) =>
+            value.toString(),
+        );
+    }
+}
+
+export class UrlVariable extends Variable<URL> {
+    private allowedProtocols?: string[];
+    parse(value: string): URL {
+        let url: URL;
+        try {
+            url = new URL(value);
+        } catch (_error) {
+            throw new Error('invalid URL');
+        }
+        const protocol = url.protocol.replace(/:$/, '');
+        if (
+            this.allowedProtocols !== undefined &&
+            !this.allowedProtocols.includes(protocol)
+        ) {
+            throw new Error(
+                `the protocol must be ${serialComma(this.allowedProtocols)}, but got ${protocol}`,
+            );
+        }
+        return url;
+    }
+    placeholder(): string {
+        return `${this.allowedProtocols?.[0] ?? 'https'}://example.com`;
+    }
+    typeMetavar(): string {
+        return '<url>';
+    }
+    getMetavar(): string {
+        return fromOption(this.defaultValue, this.typeMetavar(), (value) =>
+            value.toString(),
+        );
+    }
+    valueSchema(): JSONSchema {
+        return { type: 'string', format: 'uri' };
+    }
+    /** restrict the protocols of the URL (e.g. `'http', 'https'`) */
+    public protocols(...protocols: string[]): this {
+        this.allowedProtocols = protocols.map((protocol) =>
+            protocol.replace(/:$/, ''),
+        );
+        return this;
+    }
+}
+
+export class PortVariable extends Variable<number> {
+    parse(value: string): number {
+        if (!/^\d+$/.test(value)) {
+            throw new Error('invalid port');
+        }
+        const port = parseInt(value, 10);
+        if (port < 1 || port > 65535) {
+            throw new Error(`it must be between 1 and 65535, but got ${port}`);
+        }
+        return port;
+    }
+    placeholder(): string {
+        return '8080';
+    }
+    typeMetavar(): string {
+        return '<port>';
+    }
     getMetavar(): string {
-        return fromOption(this.defaultValue, 'true|false', (value) =>
+        return fromOption(this.defaultValue, this.typeMetavar(), (value) =>
             value.toString(),
         );
     }
+    valueSchema(): JSONSchema {
+        return { type: 'string', pattern: '^\\d+$' };
+    }
+}
+
+const durationUnits: [string, number][] = [
+    ['d', 24 * 60 * 60 * 1000],
+    ['h', 60 * 60 * 1000],
+    ['m', 60 * 1000],
+    ['s', 1000],
+    ['ms', 1],
+];
+
+function formatDuration(milliseconds: number): string {
+    if (milliseconds === 0) {
+        return '0s';
+    }
+    let rest = milliseconds;
+    let result = '';
+    for (const [unit, size] of durationUnits) {
+        const count = unit === 'ms' ? rest : Math.floor(rest / size);
+        if (count > 0) {
+            result += `${count}${unit}`;
+            rest -= count * size;
+        }
+    }
+    return result;
+}
+
+/** DurationVariable parses durations such as `30s`, `5m` or `1h30m` into milliseconds */
+export class DurationVariable extends Variable<number> {
+    parse(value: string): number {
+        if (!/^(\d+(\.\d+)?(ms|s|m|h|d))+$/.test(value)) {
+            throw new Error('invalid duration');
+        }
+        let milliseconds = 0;
+        for (const match of value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h|d)/g)) {
+            const [, size] = durationUnits.find(([unit]) => unit === match[2])!;
+            milliseconds += parseFloat(match[1]) * size;
+        }
+        // round off the errors of fractional units, e.g. 2.3h
+        return Math.round(milliseconds);
+    }
+    placeholder(): string {
+        return '30s';
+    }
+    typeMetavar(): string {
+        return '<duration>';
+    }
+    getMetavar(): string {
+        return fromOption(
+            this.defaultValue,
+            this.typeMetavar(),
+            formatDuration,
+        );
+    }
+    format(value: number): string {
+        return formatDuration(value);
+    }
+    valueSchema(): JSONSchema {
+        return {
+            type: 'string',
+            pattern: '^(\\d+(\\.\\d+)?(ms|s|m|h|d))+$',
+        };
+    }
+}
+
+const byteUnits: [string, number][] = [
+    ['PiB', 1024 ** 5],
+    ['TiB', 1024 ** 4],
+    ['GiB', 1024 ** 3],
+    ['MiB', 1024 ** 2],
+    ['KiB', 1024],
+    ['PB', 1000 ** 5],
+    ['TB', 1000 ** 4],
+    ['GB', 1000 ** 3],
+    ['MB', 1000 ** 2],
+    ['KB', 1000],
+    ['B', 1],
+];
+
+function formatBytes(bytes: number): string {
+    const unit = byteUnits.find(
+        ([, size]) => bytes >= size && bytes % size === 0,
+    );
+    return unit === undefined
+        ? bytes.toString()
+        : `${bytes / unit[1]}${unit[0]}`;
+}
+
+/** BytesVariable parses byte sizes such as `512MiB` or `2GB` into the number of bytes */
+export class BytesVariable extends Variable<number> {
+    parse(value: string): number {
+        const match = /^(\d+(?:\.\d+)?)\s*([a-z]*)$/i.exec(value);
+        if (match === null) {
+            throw new Error('invalid byte size');
+        }
+        let size = 1;
+        if (match[2] !== '') {
+            const unit = byteUnits.find(
+                ([unit]) => unit.toLowerCase() === match[2].toLowerCase(),
+            );
+            if (unit === undefined) {
+                throw new Error(`unknown unit ${match[2]}`);
+            }
+            size = unit[1];
+        }
+        const bytes = parseFloat(match[1]) * size;
+        if (!Number.isInteger(bytes)) {
+            throw new Error('it must be a whole number of bytes');
+        }
+        return bytes;
+    }
+    placeholder(): string {
+        return '1MiB';
+    }
+    typeMetavar(): string {
+        return '<bytes>';
+    }
+    getMetavar(): string {
+        return fromOption(this.defaultValue, this.typeMetavar(), formatBytes);
+    }
+    format(value: number): string {
+        return formatBytes(value);
+    }
+    valueSchema(): JSONSchema {
+        return { type: 'string', pattern: '^\\d+(\\.\\d+)?\\s*[A-Za-z]*$' };
+    }
+}
+
+/** ArrayVariable<T> splits a variable by a separator and parses each element */
+export class ArrayVariable<T> extends Variable<T[]> {
+    private _separator: string = ',';
+    private _trim: boolean = false;
+    private _minLength?: number;
+    private _maxLength?: number;
+    constructor(private element: Variable<T>) {
+        super();
+    }
+    parse(value: string): T[] {
+        const items = value === '' ? [] : value.split(this._separator);
+        if (this._minLength !== undefined && items.length < this._minLength) {
+            throw new Error(
+                `it must have at least ${this._minLength} elements, but got ${items.length}`,
+            );
+        }
+        if (this._maxLength !== undefined && items.length > this._maxLength) {
+            throw new Error(
+                `it must have at most ${this._maxLength} elements, but got ${items.length}`,
+            );
+        }
+        return items.map((item, index) => {
+            try {
+                return this.element.parse(this._trim ? item.trim() : item);
+            } catch (error) {
+                if (error instanceof Error) {
+                    throw new Error(`index ${index}: ${error.message}`, {
+                        cause: error,
+                    });
+                }
+                throw error;
+            }
+        });
+    }
+    placeholder(): string {
+        const length = Math.min(
+            Math.max(this._minLength ?? 1, 1),
+            this._maxLength ?? Infinity,
+        );
+        return Array.from({ length }, () => this.element.sample()).join(
+            this._separator,
+        );
+    }
+    typeMetavar(): string {
+        const metavar = this.element.forceMetavar ?? this.element.getMetavar();
+        return `${metavar}${this._separator}${metavar}${this._separator}...`;
+    }
+    getMetavar(): string {
+        return fromOption(this.defaultValue, this.typeMetavar(), (value) =>
+            this.format(value),
+        );
+    }
+    format(value: T[]): string {
+        return value
+            .map((element) => this.element.format(element))
+            .join(this._separator);
+    }
+    describeValue(value: T[]): string {
+        return this.format(value);
+    }
+    /** set the separator of the elements (default: `,`) */
+    public separator(separator: string): this {
+        this._separator = separator;
+        return this;
+    }
+    /** trim whitespace around each element */
+    public trim(): this {
+        this._trim = true;
+        return this;
+    }
+    /** require at least the specified number of elements */
+    public minLength(length: number): this {
+        this._minLength = length;
+        return this;
+    }
+    /** require at most the specified number of elements */
+    public maxLength(length: number): this {
+        this._maxLength = length;
+        return this;
+    }
+}
+
+/** SchemaVariable<T> validates the value with a Standard Schema, such as a zod schema */
+export class SchemaVariable<T> extends Variable<T> {
+    private _json: boolean = false;
+    constructor(private schema: StandardSchemaV1<unknown, T>) {
+        super();
+    }
+    parse(value: string): T {
+        return validateStandardSchema(
+            this.schema,
+            this._json ? parseJson(value) : value,
+        );
+    }
+    format(value: T): string {
+        return this._json ? JSON.stringify(value) : String(value);
+    }
+    describeValue(value: T): string {
+        return this._json ? JSON.stringify(value) : `${value}`;
+    }
+    placeholder(): string {
+        return this._json ? 'null' : super.placeholder();
+    }
+    valueSchema(): JSONSchema {
+        return this._json
+            ? { type: 'string', contentMediaType: 'application/json' }
+            : { type: 'string' };
+    }
+    typeMetavar(): string {
+        return this._json ? '<json>' : '<string>';
+    }
+    getMetavar(): string {
+        return fromOption(this.defaultValue, this.typeMetavar(), (value) =>
+            this.format(value),
+        );
+    }
+    /** decode the value as JSON before passing it to the schema */
+    public json(): this {
+        this._json = true;
+        return this;
+    }
+}
+
+/** JsonValidator<T> is a Standard Schema, or a function that returns the value or throws an error */
+export type JsonValidator<T> =
+    StandardSchemaV1<unknown, T> | ((value: unknown) => T);
+
+/** JsonVariable<T> decodes the value as JSON, optionally validating it */
+export class JsonVariable<T> extends Variable<T> {
+    constructor(private validator?: JsonValidator<T>) {
+        super();
+    }
+    parse(value: string): T {
+        const decoded = parseJson(value);
+        if (this.validator === undefined) {
+            return decoded as T;
+        }
+        // some schemas, such as those of arktype, are also functions
+        if ('~standard' in this.validator) {
+            return validateStandardSchema(this.validator, decoded);
+        }
+        return this.validator(decoded);
+    }
+    format(value: T): string {
+        return JSON.stringify(value);
+    }
+    describeValue(value: T): string {
+        return JSON.stringify(value);
+    }
+    typeMetavar(): string {
+        return '<json>';
+    }
+    getMetavar(): string {
+        return fromOption(this.defaultValue, this.typeMetavar(), (value) =>
+            this.format(value),
+        );
+    }
+    placeholder(): string {
+        return 'null';
+    }
+    valueSchema(): JSONSchema {
+        return { type: 'string', contentMediaType: 'application/json' };
+    }
+}
+
+/** IndexedParser<T> parses repeated groups of variables such as FOO_0_HOST, FOO_1_HOST, ... */
+export class IndexedParser<T> extends VariableLike<never, T[]> {
+    public isGroup = true;
+    constructor(
+        private prefix: string,
+        private template: ObjectParser<T>,
+    ) {
+        super();
+    }
+    parseContext(ctx: Context<unknown>): ParseResult<T[]> {
+        const prefix = ctx.prefix + this.prefix;
+        // discover the indices in use, in ascending order
+        const indices: string[] = [];
+        for (const key in ctx.values) {
+            if (!key.startsWith(prefix)) {
+                continue;
+            }
+            const match = /^(\d+)_/.exec(key.slice(prefix.length));
+            if (match !== null && !indices.includes(match[1])) {
+                indices.push(match[1]);
+            }
+        }
+        indices.sort((a, b) => Number(a) - Number(b));
+        const results: ParseResults<Record<string, T>> = {};
+        for (const index of indices) {
+            results[index] = this.template.parseContext({
+                ...ctx,
+                envName: void 0,
+                envValue: undefined,
+                prefix: `${prefix}${index}_`,
+            });
+        }
+        const result = ParseResults.combine(results);
+        if (result.success) {
+            return {
+                success: true,
+                data: indices.map((index) => result.data[index]),
+            };
+        } else {
+            return result;
+        }
+    }
+    serializeVariable(
+        envName: unknown,
+        value: T[],
+        prefix: string = '',
+        redactor?: Redactor,
+    ): Record<string, string> {
+        return Object.assign(
+            {},
+            ...value.map((element, index) =>
+                this.template.serializeVariable(
+                    void 0,
+                    element,
+                    `${prefix}${this.prefix}${index}_`,
+                    redactor,
+                ),
+            ),
+        );
+    }
+    sampleVariable(
+        envName?: unknown,
+        prefix: string = '',
+        allBranches?: boolean,
+    ): Record<string, string>[] {
+        return this.template.sampleVariable(
+            void 0,
+            `${prefix}${this.prefix}0_`,
+            allBranches,
+        );
+    }
+    fixedVariables(envName?: unknown, prefix: string = ''): string[] {
+        return [
+            ...(this.isReloadable === false && envName !== undefined
+                ? [String(envName)]
+                : []),
+            ...this.template.fixedVariables(
+                void 0,
+                `${prefix}${this.prefix}<n>_`,
+            ),
+        ];
+    }
+    describeVariable(
+        envName?: unknown,
+        prepend?: string,
+        prefix: string = '',
+    ): string {
+        const header = this._description ? `# ${this._description}` : undefined;
+        const template = commentOut(
+            this.template.describeVariable(
+                void 0,
+                undefined,
+                `${prefix}${this.prefix}0_`,
+            ),
+        );
+        return [header, template].filter((x) => x !== undefined).join('\n');
+    }
+    describeEntries(
+        envName?: unknown,
+        prefix: string = '',
+        branch?: string,
+    ): DocEntry[] {
+        return this.template.describeEntries(
+            void 0,
+            `${prefix}${this.prefix}<n>_`,
+            branch,
+        );
+    }
+    describeSchema(envName?: unknown, prefix: string = ''): JSONSchema {
+        const template = this.template.describeSchema(void 0, '');
+        const pattern = `^${escapeRegExp(prefix + this.prefix)}\\d+_`;
+        const patternProperties: Record<string, JSONSchema> = {};
+        for (const [name, schema] of Object.entries(
+            template.properties ?? {},
+        )) {
+            patternProperties[`${pattern}${escapeRegExp(name)}$`] = schema;
+        }
+        return { patternProperties };
+    }
+    getMetavar(): string {
+        // this should never be called
+        return 'indexed';
+    }
 }
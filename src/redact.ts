@@ -0,0 +1,62 @@
+import { createHash, createHmac } from 'crypto';
+
+/** Redactor turns the value of a secret into a string that is safe to log */
+export interface Redactor {
+    redact(value: string): string;
+}
+
+/** Sha256Redactor shows the first 8 hex digits of the SHA-256 hash, which tells whether the value has changed */
+export class Sha256Redactor implements Redactor {
+    public redact(value: string): string {
+        const hash = createHash('sha256');
+        hash.update(value);
+        const digest = hash.digest('hex').slice(0, 8);
+        return `<SHA256:${digest}>`;
+    }
+}
+
+/** MaskRedactor hides the value entirely */
+export class MaskRedactor implements Redactor {
+    public redact(): string {
+        return '<redacted>';
+    }
+}
+
+/**
+ * HmacRedactor shows the first 8 hex digits of the HMAC-SHA256 of the value.
+ * Unlike the plain hash, it cannot be brute-forced without the key, even if the secret has low entropy.
+ */
+export class HmacRedactor implements Redactor {
+    public constructor(private key: string | Buffer) {}
+    public redact(value: string): string {
+        const hmac = createHmac('sha256', this.key);
+        hmac.update(value);
+        const digest = hmac.digest('hex').slice(0, 8);
+        return `<HMAC:${digest}>`;
+    }
+}
+
+/** LastCharsRedactor shows the last n characters, or nothing if the value is shorter than 2n characters */
+export class LastCharsRedactor implements Redactor {
+    public constructor(private n: number = 4) {}
+    public redact(value: string): string {
+        if (value.length < this.n * 2) {
+            return '<redacted>';
+        }
+        return `<...${value.slice(-this.n)}>`;
+    }
+}
+
+/** LengthRedactor shows the length of the value */
+export class LengthRedactor implements Redactor {
+    public redact(value: string): string {
+        return `<${value.length} characters>`;
+    }
+}
+
+export function redactSecret(redactor: Redactor, value: string): string {
+    if (value === '') {
+        return '<empty string>';
+    }
+    return redactor.redact(value);
+}
@@ -0,0 +1,77 @@
+import { readFile } from 'fs/promises';
+import { ILogger, logDebug } from './logger';
+import type { State } from './mod';
+
+/**
+ * SecretResolver resolves references such as `file:/run/secrets/db` or `vault:secret/data/app#password`
+ * into the actual values.
+ */
+export interface SecretResolver {
+    /** the scheme of the references handled by the resolver, e.g. `file` */
+    scheme: string;
+    /** resolve the reference (the part after `scheme:`) */
+    resolve(reference: string): Promise<string>;
+}
+
+/** FileSecretResolver reads `file:<path>` references, removing the trailing newline */
+export class FileSecretResolver implements SecretResolver {
+    public scheme = 'file';
+    public async resolve(reference: string): Promise<string> {
+        const content = await readFile(reference, 'utf8');
+        return content.replace(/\r?\n$/, '');
+    }
+}
+
+/** MemorySecretResolver resolves references from a record, mainly for testing */
+export class MemorySecretResolver implements SecretResolver {
+    public constructor(
+        public scheme: string,
+        private secrets: Record<string, string>,
+    ) {}
+    public async resolve(reference: string): Promise<string> {
+        const value = this.secrets[reference];
+        if (value === undefined) {
+            throw new Error(`unknown secret ${reference}`);
+        }
+        return value;
+    }
+}
+
+/**
+ * replace the values of the specified variables that refer to a registered scheme with the resolved values.
+ * the references that could not be resolved are marked with the error, which is reported when the variable is parsed
+ */
+export async function resolveReferences(
+    values: Record<string, State>,
+    names: string[],
+    resolvers: SecretResolver[],
+    logger: ILogger,
+): Promise<void> {
+    await Promise.all(
+        [...new Set(names)].map(async (envName) => {
+            const state = values[envName];
+            const match = /^([a-zA-Z][a-zA-Z0-9+.-]*):(.*)$/s.exec(state.value);
+            if (match === null) {
+                return;
+            }
+            const resolver = resolvers.find(
+                (resolver) => resolver.scheme === match[1],
+            );
+            if (resolver === undefined) {
+                return;
+            }
+            try {
+                state.value = await resolver.resolve(match[2]);
+                logDebug(
+                    logger,
+                    `${envName} is resolved by the ${match[1]} resolver`,
+                );
+            } catch (error) {
+                if (!(error instanceof Error)) {
+                    throw error;
+                }
+                state.error = `unable to resolve the reference: ${error.message}`;
+            }
+        }),
+    );
+}
@@ -1,10 +1,28 @@
-export type ParseResult<T> = { success: true; data: T } | { success: false; error: Error };
+import { EVPError, Issue } from './error';
+
+export type ParseResult<T> = { success: true; data: T } | { success: false; error: EVPError };
 
 export type ParseResults<T> = { [K in keyof T]: ParseResult<T[K]> };
 
 export const ParseResult = {
-  missingVariable<T>(): ParseResult<T>{
-    return { success: false, error: new Error('missing environment variable') };
+  missingVariable<T>(envName: string): ParseResult<T>{
+    const message = 'missing environment variable';
+    return {
+      success: false,
+      error: new EVPError(message, [
+        { reason: 'missing', envName, path: [], message },
+      ]),
+    };
+  },
+  invalidVariable<T>(envName: string, value: string, message: string, cause?: unknown): ParseResult<T>{
+    return {
+      success: false,
+      error: new EVPError(
+        message,
+        [{ reason: 'invalid', envName, path: [], value, message }],
+        { cause },
+      ),
+    };
   },
 };
 
@@ -15,10 +33,21 @@ export const ParseResults = {
         (key) => !partial[key as keyof T].success
     );
     if (missing.length > 0) {
+        // collect the issues of the fields, prefixing their paths with the field name
+        const issues: Issue[] = [];
+        for (const key of missing) {
+            const value = partial[key as keyof T];
+            if (!value.success) {
+                for (const issue of value.error.issues) {
+                    issues.push({ ...issue, path: [key, ...issue.path] });
+                }
+            }
+        }
         return {
             success: false,
-            error: new Error(
+            error: new EVPError(
                 `Unable to fill the following fields: ${missing.join(', ')}`,
+                issues,
             ),
         };
     }
@@ -33,4 +62,4 @@ export const ParseResults = {
     }
     return { success: true, data: result as T };
   }
-}
\ No newline at end of file
+}
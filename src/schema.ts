@@ -0,0 +1,52 @@
+/** A subset of JSON Schema used to describe the environment */
+export interface JSONSchema {
+    $schema?: string;
+    type?: 'object' | 'string';
+    description?: string;
+    properties?: Record<string, JSONSchema>;
+    patternProperties?: Record<string, JSONSchema>;
+    required?: string[];
+    enum?: string[];
+    const?: string;
+    default?: string;
+    pattern?: string;
+    format?: string;
+    contentMediaType?: string;
+    minLength?: number;
+    maxLength?: number;
+    writeOnly?: boolean;
+    allOf?: JSONSchema[];
+    oneOf?: JSONSchema[];
+}
+
+/** merge the schemas of sets of variables into one */
+export function mergeSchemas(schemas: JSONSchema[]): JSONSchema {
+    const result: JSONSchema = {};
+    for (const schema of schemas) {
+        if (schema.properties !== undefined) {
+            result.properties = { ...result.properties, ...schema.properties };
+        }
+        if (schema.patternProperties !== undefined) {
+            result.patternProperties = {
+                ...result.patternProperties,
+                ...schema.patternProperties,
+            };
+        }
+        if (schema.required !== undefined && schema.required.length > 0) {
+            result.required = [
+                ...(result.required ?? []),
+                ...schema.required.filter(
+                    (name) => !result.required?.includes(name),
+                ),
+            ];
+        }
+        if (schema.allOf !== undefined) {
+            result.allOf = [...(result.allOf ?? []), ...schema.allOf];
+        }
+    }
+    return result;
+}
+
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,26 @@
+import { inspect } from 'util';
+
+/**
+ * Secret<T> wraps a secret value so that it is not printed by accident.
+ * `toString()`, `toJSON()` and `util.inspect()` (used by `console.log()`) return `<secret>`;
+ * the value is only available through `reveal()`.
+ */
+export class Secret<T> {
+    readonly #value: T;
+    public constructor(value: T) {
+        this.#value = value;
+    }
+    /** get the actual value */
+    public reveal(): T {
+        return this.#value;
+    }
+    public toString(): string {
+        return '<secret>';
+    }
+    public toJSON(): string {
+        return '<secret>';
+    }
+    public [inspect.custom](): string {
+        return '<secret>';
+    }
+}
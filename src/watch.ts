@@ -0,0 +1,239 @@
+import { FSWatcher, watch } from 'fs';
+import { EVPError } from './error';
+import { ILogger, logEvent } from './logger';
+import type { Input } from './mod';
+import { ParseResult } from './result';
+import { Secret } from './secret';
+
+export type WatchOptions = {
+    /** read the input on each reload (default: `process.env`) */
+    input?: () => Input;
+    /** the files to watch in addition to those read by `.fromFile()`, such as dotenv files */
+    files?: string[];
+    /** wait for the changes to settle before reloading, in milliseconds (default: 100) */
+    debounce?: number;
+};
+
+/** ChangeEvent is emitted when a reload changes the configuration */
+export type ChangeEvent<T> = {
+    previous: T;
+    next: T;
+    /** the fields whose values have changed */
+    changedKeys: string[];
+    /** the fields marked with `.reloadable(false)` that have changed; `next` keeps their previous values */
+    restartRequired: string[];
+};
+
+// declared with the method syntax, so that ConfigWatcher<T> is covariant in T like ObjectParser<T>
+type Listener<E> = { listener(event: E): void }['listener'];
+
+function isEqual(a: unknown, b: unknown): boolean {
+    if (a === b) {
+        return true;
+    }
+    if (a instanceof Secret && b instanceof Secret) {
+        return isEqual(a.reveal(), b.reveal());
+    }
+    if (a instanceof URL && b instanceof URL) {
+        return a.href === b.href;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+        return a.length === b.length && a.every((x, i) => isEqual(x, b[i]));
+    }
+    if (
+        typeof a === 'object' &&
+        typeof b === 'object' &&
+        a !== null &&
+        b !== null &&
+        Object.getPrototypeOf(a) === Object.prototype &&
+        Object.getPrototypeOf(b) === Object.prototype
+    ) {
+        const keys = Object.keys(a);
+        return (
+            keys.length === Object.keys(b).length &&
+            keys.every((key) =>
+                isEqual(
+                    (a as Record<string, unknown>)[key],
+                    (b as Record<string, unknown>)[key],
+                ),
+            )
+        );
+    }
+    return false;
+}
+
+/**
+ * ConfigWatcher keeps the configuration up to date, reparsing the input when the watched files change.
+ * If a reparse fails, the last good configuration is kept.
+ */
+export class ConfigWatcher<T> {
+    private _current: T;
+    private changeListeners: Listener<ChangeEvent<T>>[] = [];
+    private errorListeners: Listener<EVPError>[] = [];
+    private watchers: FSWatcher[] = [];
+    /** the files read by the last successful parse */
+    private files: string[] = [];
+    private timer?: NodeJS.Timeout;
+    private closed: boolean = false;
+    public constructor(
+        private parse: (
+            input: Input | undefined,
+            files: string[],
+        ) => ParseResult<T>,
+        /** the name of the variable of a field marked with `.reloadable(false)`, or undefined for the other fields */
+        private fixedName: (key: string) => string | undefined,
+        private logger: ILogger,
+        private options: WatchOptions,
+    ) {
+        const files: string[] = [];
+        const result = parse(options.input?.(), files);
+        if (!result.success) {
+            throw result.error;
+        }
+        this._current = result.data;
+        this.files = files;
+        this.watchFiles(files);
+    }
+    /** the latest good configuration */
+    public get current(): T {
+        return this._current;
+    }
+    /**
+     * call the listener when the configuration changes
+     * @returns a function to remove the listener
+     */
+    public onChange(listener: (event: ChangeEvent<T>) => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter(
+                (l) => l !== listener,
+            );
+        };
+    }
+    /**
+     * call the listener when a reload fails
+     * @returns a function to remove the listener
+     */
+    public onError(listener: (error: EVPError) => void): () => void {
+        this.errorListeners.push(listener);
+        return () => {
+            this.errorListeners = this.errorListeners.filter(
+                (l) => l !== listener,
+            );
+        };
+    }
+    /** reparse the input now, e.g. after updating an injected source */
+    public reload(): ParseResult<T> {
+        const files: string[] = [];
+        let result: ParseResult<T>;
+        try {
+            result = this.parse(this.options.input?.(), files);
+        } catch (error) {
+            // e.g. a dotenv file that is being written
+            result = {
+                success: false,
+                error:
+                    error instanceof EVPError
+                        ? error
+                        : new EVPError(
+                              error instanceof Error
+                                  ? error.message
+                                  : String(error),
+                              [],
+                              { cause: error },
+                          ),
+            };
+        }
+        if (!result.success) {
+            // keep watching the files of the last good configuration
+            this.watchFiles([...this.files, ...files]);
+            this.notify(this.errorListeners, result.error);
+            return result;
+        }
+        this.files = files;
+        this.watchFiles(files);
+        const previous = this._current;
+        const next = { ...result.data };
+        const changedKeys: string[] = [];
+        const restartRequired: string[] = [];
+        for (const key in next) {
+            if (isEqual(previous[key], next[key])) {
+                continue;
+            }
+            const fixedName = this.fixedName(key);
+            if (fixedName !== undefined) {
+                logEvent(this.logger, {
+                    kind: 'restart',
+                    envName: fixedName,
+                    isSecret: false,
+                });
+                restartRequired.push(key);
+                next[key] = previous[key];
+            } else {
+                changedKeys.push(key);
+            }
+        }
+        this._current = next;
+        if (changedKeys.length > 0 || restartRequired.length > 0) {
+            this.notify(this.changeListeners, {
+                previous,
+                next,
+                changedKeys,
+                restartRequired,
+            });
+        }
+        return { success: true, data: next };
+    }
+    /** stop watching the files */
+    public close(): void {
+        this.closed = true;
+        clearTimeout(this.timer);
+        this.unwatchFiles();
+    }
+    /** call the listeners, logging the errors they throw so that the watcher keeps running */
+    private notify<E>(listeners: Listener<E>[], event: E): void {
+        for (const listener of listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                this.logger.error(
+                    `a listener of the watcher threw an error: ${error instanceof Error ? error.message : String(error)}`,
+                );
+            }
+        }
+    }
+    private schedule(): void {
+        clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            if (!this.closed) {
+                this.reload();
+            }
+        }, this.options.debounce ?? 100);
+        this.timer.unref();
+    }
+    private watchFiles(files: string[]): void {
+        // watch the files again, as a watcher stops when the file is replaced
+        this.unwatchFiles();
+        if (this.closed) {
+            return;
+        }
+        const paths = new Set([...(this.options.files ?? []), ...files]);
+        for (const path of paths) {
+            try {
+                const watcher = watch(path, { persistent: false }, () =>
+                    this.schedule(),
+                );
+                watcher.on('error', () => this.schedule());
+                this.watchers.push(watcher);
+            } catch {
+                // the file does not exist (yet); it is retried on the next reload
+            }
+        }
+    }
+    private unwatchFiles(): void {
+        for (const watcher of this.watchers) {
+            watcher.close();
+        }
+        this.watchers = [];
+    }
+}